@@ -0,0 +1,89 @@
+import type { AdaptiveConfig } from "./types";
+
+/**
+ * Smoothing factor of the short-term latency average, which reacts to the latest responses.
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Smoothing factor of the long-term latency average, which serves as the baseline.
+ */
+const BASELINE_SMOOTHING = 0.05;
+
+/**
+ * An AIMD (additive increase, multiplicative decrease) controller of the effective concurrency and interval of a pool.
+ * Throttling responses and latency spikes shrink the concurrency and widen the interval multiplicatively,
+ * while healthy responses restore them additively until the configured limits are reached again.
+ */
+export class AdaptiveController {
+	readonly #config: Required<AdaptiveConfig>;
+
+	#concurrency: number;
+
+	#interval: number;
+
+	#latency?: number;
+
+	#baseline?: number;
+
+	#decreasedAt = -Infinity;
+
+	/**
+	 * @param maxConcurrency The configured concurrency, which is also the upper bound of the effective concurrency.
+	 * @param minInterval The configured interval, which is also the lower bound of the effective interval.
+	 */
+	constructor(readonly maxConcurrency: number, readonly minInterval: number, config: Required<AdaptiveConfig>) {
+		this.#config = config;
+		this.#concurrency = maxConcurrency;
+		this.#interval = minInterval;
+	}
+
+	get concurrency(): number {
+		return Math.max(1, Math.floor(this.#concurrency));
+	}
+
+	get interval(): number {
+		return this.#interval;
+	}
+
+	#isLatencyRising(latency: number): boolean {
+		if (!(this.#config.latencyFactor > 0))
+			return false;
+		if (this.#latency === undefined || this.#baseline === undefined) {
+			this.#latency = this.#baseline = latency;
+			return false;
+		}
+		this.#latency += (latency - this.#latency) * LATENCY_SMOOTHING;
+		this.#baseline += (latency - this.#baseline) * BASELINE_SMOOTHING;
+		return this.#latency > this.#baseline * this.#config.latencyFactor;
+	}
+
+	/**
+	 * Updates the effective limits with the outcome of a request.
+	 * @param startedAt The timestamp when the request started.
+	 * @param now The current timestamp.
+	 * @param throttled Whether the server signaled throttling, e.g. with a 429 or 503 response.
+	 * @param active The number of requests still active.
+	 * @returns Whether the effective limits have changed.
+	 */
+	update(startedAt: number, now: number, throttled: boolean, active: number): boolean {
+		const { minConcurrency, maxInterval, decreaseFactor, increaseStep, intervalStep } = this.#config;
+		if (this.#isLatencyRising(now - startedAt) || throttled) {
+			// Requests started before the last decrease were sent under the old limits, so they shouldn't trigger another one
+			if (startedAt < this.#decreasedAt)
+				return false;
+			this.#decreasedAt = now;
+			// The concurrency may be unlimited, so shrink from what was actually active
+			const current = Math.min(this.#concurrency, active + 1);
+			this.#concurrency = Math.max(minConcurrency, current * decreaseFactor);
+			this.#interval = Math.min(maxInterval, Math.max(this.#interval / decreaseFactor, this.#interval + intervalStep));
+			return true;
+		}
+		if (this.#concurrency >= this.maxConcurrency && this.#interval <= this.minInterval)
+			return false;
+		// Grows by about `increaseStep` after a full round of healthy responses
+		this.#concurrency = Math.min(this.maxConcurrency, this.#concurrency + increaseStep / this.#concurrency);
+		this.#interval = Math.max(this.minInterval, this.#interval - intervalStep / this.#concurrency);
+		return true;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,103 @@
+import type { CircuitBreakerConfig, CircuitState, Clock } from "./types";
+
+/**
+ * The error with which requests are rejected while the circuit breaker of their pool is open.
+ */
+export class CircuitOpenError extends Error {
+	override readonly name = "CircuitOpenError";
+
+	/**
+	 * @param key The key of the pool whose circuit is open.
+	 * @param retryAfter The time in milliseconds until a probe request is let through, or 0 if a probe is in flight.
+	 */
+	constructor(readonly key: string, readonly retryAfter: number) {
+		super(`The circuit breaker of the request pool${key ? ` "${key}"` : ""} is open`);
+	}
+}
+
+/**
+ * Tracks the failures of the attempts in a pool, and opens the circuit after `failureThreshold` consecutive failures
+ * within `window`. Once `cooldown` has elapsed, a single probe request decides whether the circuit closes again.
+ */
+export class CircuitBreaker {
+	readonly #config: Required<CircuitBreakerConfig>;
+
+	readonly #clock: Clock;
+
+	/**
+	 * The timestamps of the consecutive failures since the last success.
+	 */
+	#failures = new Array<number>();
+
+	#openedAt?: number;
+
+	#probing = false;
+
+	constructor(config: Required<CircuitBreakerConfig>, clock: Clock) {
+		this.#config = config;
+		this.#clock = clock;
+	}
+
+	get state(): CircuitState {
+		if (this.#openedAt === undefined)
+			return "closed";
+		return this.#clock.now() - this.#openedAt < this.#config.cooldown ? "open" : "half-open";
+	}
+
+	/**
+	 * The time in milliseconds until a probe request is let through.
+	 */
+	get remaining(): number {
+		return this.#openedAt === undefined ? 0 : Math.max(0, this.#openedAt + this.#config.cooldown - this.#clock.now());
+	}
+
+	/**
+	 * Checks whether a new request may be sent. While half-open, only the first request is let through as the probe.
+	 * @returns `"probe"` if the request is the probe, otherwise whether it may be sent.
+	 */
+	admit(): boolean | "probe" {
+		const state = this.state;
+		if (state === "closed")
+			return true;
+		if (state === "open" || this.#probing)
+			return false;
+		this.#probing = true;
+		return "probe";
+	}
+
+	/**
+	 * Lets another request through as the probe, as the current one settled without completing an attempt.
+	 */
+	cancelProbe(): void {
+		this.#probing = false;
+	}
+
+	/**
+	 * Records the outcome of an attempt. While the circuit isn't closed, only the outcome of the probe counts.
+	 * @param failed Whether the attempt failed.
+	 * @param probe Whether the attempt is the one of the probe.
+	 * @returns Whether the circuit has just opened.
+	 */
+	record(failed: boolean, probe: boolean): boolean {
+		const now = this.#clock.now();
+		if (this.#openedAt !== undefined) {
+			if (!probe)
+				return false;
+			this.#probing = false;
+			this.#openedAt = failed ? now : undefined;
+			return failed;
+		}
+		if (!failed) {
+			this.#failures = [];
+			return false;
+		}
+		const { failureThreshold, window } = this.#config;
+		this.#failures = this.#failures.filter(time => time > now - window);
+		this.#failures.push(now);
+		if (this.#failures.length < failureThreshold)
+			return false;
+		this.#failures = [];
+		this.#openedAt = now;
+		return true;
+	}
+}
\ No newline at end of file
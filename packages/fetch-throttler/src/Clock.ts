@@ -0,0 +1,142 @@
+import type { Clock } from "./types";
+
+/**
+ * The clock based on `performance.now()` and the global timers, used unless another one is configured.
+ */
+export const systemClock: Clock = {
+	now: () => performance.now(),
+	date: () => Date.now(),
+	setTimeout: (callback, delay) => setTimeout(callback, delay),
+	clearTimeout: timer => clearTimeout(timer as ReturnType<typeof setTimeout>),
+	random: () => Math.random()
+};
+
+interface VirtualTimer {
+	readonly id: number;
+
+	readonly time: number;
+
+	readonly callback: () => void;
+}
+
+/**
+ * Waits for a task of the event loop, so that the promise reactions triggered so far have run.
+ */
+function flush(): Promise<void> {
+	return new Promise(resolve => {
+		if (typeof setImmediate === "function")
+			setImmediate(resolve);
+		else
+			setTimeout(resolve, 0);
+	});
+}
+
+/**
+ * A clock whose time only moves when told to, so that throttling can be tested deterministically and without
+ * real delays. Timers fire in the order of their due times, and ties in the order they were created.
+ * Between two timers, promise reactions get the chance to run, e.g. so that a request settled by a timer
+ * releases its slot before the next timer fires.
+ */
+export class VirtualClock implements Clock {
+	readonly #timers = new Map<number, VirtualTimer>();
+
+	readonly #epoch: number;
+
+	#now = 0;
+
+	#nextId = 1;
+
+	#seed: number;
+
+	/**
+	 * @param epoch The value of `date()` at the start, in milliseconds since the Unix epoch.
+	 * @param seed The seed of the random numbers returned by `random()`, which are the same for the same seed.
+	 */
+	constructor(epoch: number = 0, seed: number = 0) {
+		this.#epoch = epoch;
+		this.#seed = seed >>> 0;
+	}
+
+	/**
+	 * The number of timers which haven't fired yet.
+	 */
+	get pending(): number {
+		return this.#timers.size;
+	}
+
+	now(): number {
+		return this.#now;
+	}
+
+	date(): number {
+		return this.#epoch + this.#now;
+	}
+
+	setTimeout(callback: () => void, delay: number): number {
+		const id = this.#nextId++;
+		this.#timers.set(id, { id, time: this.#now + Math.max(0, delay || 0), callback });
+		return id;
+	}
+
+	clearTimeout(timer: unknown): void {
+		this.#timers.delete(timer as number);
+	}
+
+	/**
+	 * Gets a pseudo-random number in `[0, 1)` from the seed, so that jittered retries are reproducible.
+	 */
+	random(): number {
+		// Mulberry32
+		let t = this.#seed = (this.#seed + 0x6D2B79F5) >>> 0;
+		t = Math.imul(t ^ t >>> 15, t | 1);
+		t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+		return ((t ^ t >>> 14) >>> 0) / 4294967296;
+	}
+
+	/**
+	 * Creates a promise resolving after the delay in milliseconds of virtual time, e.g. to simulate latency in adapters.
+	 */
+	sleep(delay: number): Promise<void> {
+		return new Promise(resolve => this.setTimeout(resolve, delay));
+	}
+
+	#next(until: number): VirtualTimer | undefined {
+		let next: VirtualTimer | undefined;
+		for (const timer of this.#timers.values()) {
+			// Timers are iterated in the order they were created, so ties keep the first one
+			if (timer.time <= until && (next === undefined || timer.time < next.time))
+				next = timer;
+		}
+		return next;
+	}
+
+	async #run(until: number) {
+		await flush();
+		let timer: VirtualTimer | undefined;
+		while ((timer = this.#next(until)) !== undefined) {
+			this.#timers.delete(timer.id);
+			this.#now = timer.time;
+			timer.callback();
+			await flush();
+		}
+	}
+
+	/**
+	 * Moves the time forward, firing the timers due in the meantime, including those created by the fired ones.
+	 * @param duration The time in milliseconds to move forward.
+	 * @returns A promise that resolves once the time has moved.
+	 */
+	async advance(duration: number): Promise<void> {
+		const until = this.#now + Math.max(0, duration);
+		await this.#run(until);
+		this.#now = until;
+	}
+
+	/**
+	 * Fires all timers, including those created by the fired ones, moving the time to the last of them.
+	 * Never settles if timers keep creating new ones.
+	 */
+	runAll(): Promise<void> {
+		return this.#run(Infinity);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import type { ThrottleChannel, ThrottleCoordinator } from "./types";
+
+interface Message {
+	/**
+	 * The context sending the message.
+	 */
+	peer: string;
+
+	type: "start" | "finish" | "leave";
+
+	key: string;
+
+	/**
+	 * The time of the event in milliseconds since the epoch, comparable across contexts.
+	 */
+	time: number;
+
+	/**
+	 * The number of active requests of the pool in the sending context after the event.
+	 */
+	active: number;
+
+	/**
+	 * The cost of the started request. Only set for `start` messages.
+	 */
+	cost?: number;
+}
+
+interface PeerState {
+	active: number;
+
+	/**
+	 * Forgets the peer once it hasn't sent any message for `staleAfter`.
+	 */
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * The state shared for a pool key, kept even before a pool of the key is created in this context.
+ */
+interface KeyState {
+	/**
+	 * The states of the pools in other contexts, by the IDs of the contexts.
+	 */
+	readonly peers: Map<string, PeerState>;
+
+	/**
+	 * The start times of the recent remote requests, relative to `performance.timeOrigin` of this context,
+	 * along with their costs.
+	 */
+	starts: [time: number, cost: number][];
+
+	readonly channels: Set<CrossTabChannel>;
+}
+
+export interface CrossTabCoordinatorOptions {
+	/**
+	 * Milliseconds after which the active requests reported by another context are ignored if it hasn't sent
+	 * any message since, e.g. because it was closed without saying goodbye.
+	 * This is also how long remote requests are remembered for the pools created later in this context.
+	 * @default 60000
+	 */
+	staleAfter?: number;
+}
+
+class CrossTabChannel implements ThrottleChannel {
+	active = 0;
+
+	onStart?: (time: number, cost: number) => void;
+
+	onFinish?: () => void;
+
+	/**
+	 * @param _post Announces an event of the pool to the other contexts.
+	 * @param _leave Removes the channel from the coordinator.
+	 */
+	constructor(
+		private readonly _state: KeyState,
+		private readonly _post: (type: Message["type"], cost?: number) => void,
+		private readonly _leave: (channel: CrossTabChannel) => void
+	) { }
+
+	get remoteActive(): number {
+		let active = 0;
+		for (const state of this._state.peers.values())
+			active += state.active;
+		return active;
+	}
+
+	start(cost: number): void {
+		++this.active;
+		this._post("start", cost);
+	}
+
+	finish(): void {
+		--this.active;
+		this._post("finish");
+	}
+
+	listen(onStart: (time: number, cost: number) => void, onFinish: () => void): void {
+		this.onStart = onStart;
+		this.onFinish = onFinish;
+		// Catch up with the requests started before the pool was created
+		this._state.starts.forEach(([time, cost]) => onStart(time, cost));
+	}
+
+	close(): void {
+		this._leave(this);
+	}
+}
+
+/**
+ * Shares the state of pools between same-origin tabs and workers via a `BroadcastChannel`, so that their limits
+ * apply across all contexts using a coordinator with the same name. Each context announces the starts and
+ * finishes of its requests, which the other contexts count towards the concurrency and rate limits of their
+ * pools with the same key. As the state is exchanged asynchronously, limits may be exceeded briefly when
+ * several contexts start requests at the same time.
+ * If `BroadcastChannel` isn't available, pools fall back to their local state.
+ */
+export class CrossTabCoordinator implements ThrottleCoordinator {
+	readonly #id = Math.random().toString(36).slice(2);
+
+	readonly #broadcast?: BroadcastChannel;
+
+	readonly #keys = new Map<string, KeyState>();
+
+	#closed = false;
+
+	readonly #onPageHide = (e: PageTransitionEvent) => {
+		// Pages entering the back/forward cache may be restored later
+		if (!e.persisted)
+			this.close();
+	};
+
+	readonly staleAfter: number;
+
+	/**
+	 * @param name The name of the broadcast channel. Only coordinators with the same name share their state.
+	 */
+	constructor(readonly name: string = "fetch-throttler", options?: CrossTabCoordinatorOptions) {
+		this.staleAfter = options?.staleAfter ?? 60000;
+		if (typeof BroadcastChannel === "undefined")
+			return;
+		this.#broadcast = new BroadcastChannel(name);
+		this.#broadcast.onmessage = (e: MessageEvent<Message>) => this.#receive(e.data);
+		globalThis.addEventListener?.("pagehide", this.#onPageHide);
+	}
+
+	/**
+	 * Whether the state is actually shared with other contexts.
+	 */
+	get shared(): boolean {
+		return this.#broadcast !== undefined && !this.#closed;
+	}
+
+	#getState(key: string): KeyState {
+		let state = this.#keys.get(key);
+		if (state === undefined) {
+			state = { peers: new Map(), starts: [], channels: new Set() };
+			this.#keys.set(key, state);
+		}
+		return state;
+	}
+
+	#receive(message: Message) {
+		if (message.peer === this.#id)
+			return;
+		const state = this.#getState(message.key);
+		const { peers, channels } = state;
+		clearTimeout(peers.get(message.peer)?.timer);
+		if (message.type === "leave")
+			peers.delete(message.peer);
+		else {
+			const timer = setTimeout(() => {
+				peers.delete(message.peer);
+				channels.forEach(channel => channel.onFinish?.());
+			}, this.staleAfter);
+			peers.set(message.peer, { active: message.active, timer });
+		}
+		if (message.type !== "start")
+			return channels.forEach(channel => channel.onFinish?.());
+		const time = message.time - performance.timeOrigin;
+		const cost = message.cost ?? 1;
+		state.starts = state.starts.filter(([t]) => t > time - this.staleAfter);
+		state.starts.push([time, cost]);
+		channels.forEach(channel => channel.onStart?.(time, cost));
+	}
+
+	#post(key: string, type: Message["type"], cost?: number) {
+		// Pools of this context may still finish requests after closing
+		if (this.#closed)
+			return;
+		let active = 0;
+		for (const channel of this.#keys.get(key)?.channels ?? [])
+			active += channel.active;
+		const message: Message = {
+			peer: this.#id,
+			type,
+			key,
+			time: performance.timeOrigin + performance.now(),
+			active,
+			cost
+		};
+		this.#broadcast?.postMessage(message);
+	}
+
+	join(key: string): ThrottleChannel | undefined {
+		if (!this.shared)
+			return undefined;
+		const state = this.#getState(key);
+		const channel = new CrossTabChannel(
+			state,
+			(type, cost) => this.#post(key, type, cost),
+			channel => {
+				// Announces that the requests of the removed pool no longer count
+				if (state.channels.delete(channel) && channel.active > 0)
+					this.#post(key, "finish");
+			}
+		);
+		state.channels.add(channel);
+		return channel;
+	}
+
+	/**
+	 * Announces that this context leaves, and stops sharing state. Called automatically when the page is hidden
+	 * for good, e.g. when the tab is closed.
+	 */
+	close(): void {
+		for (const [key, { peers, channels }] of this.#keys) {
+			peers.forEach(peer => clearTimeout(peer.timer));
+			channels.clear();
+			this.#post(key, "leave");
+		}
+		this.#keys.clear();
+		this.#closed = true;
+		this.#broadcast?.close();
+		globalThis.removeEventListener?.("pagehide", this.#onPageHide);
+	}
+}
\ No newline at end of file
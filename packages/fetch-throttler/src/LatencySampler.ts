@@ -0,0 +1,44 @@
+import type { LatencyStats } from "./types";
+
+/**
+ * Keeps the latest latencies in a ring buffer, so that the percentiles reflect the recent state of a pool
+ * while the memory usage stays bounded.
+ */
+export class LatencySampler {
+	readonly #samples: number[] = [];
+
+	#next = 0;
+
+	/**
+	 * @param capacity The maximum number of latencies kept.
+	 */
+	constructor(readonly capacity: number = 1000) { }
+
+	record(latency: number): void {
+		if (this.#samples.length < this.capacity)
+			this.#samples.push(latency);
+		else
+			this.#samples[this.#next] = latency;
+		this.#next = (this.#next + 1) % this.capacity;
+	}
+
+	/**
+	 * Summarizes the kept latencies, using the nearest-rank method for the percentiles.
+	 * @returns The summary, or `undefined` if no latency has been recorded.
+	 */
+	summarize(): LatencyStats | undefined {
+		const count = this.#samples.length;
+		if (count === 0)
+			return undefined;
+		const sorted = [...this.#samples].sort((a, b) => a - b);
+		const percentile = (p: number) => sorted[Math.max(0, Math.ceil(p / 100 * count) - 1)];
+		return {
+			count,
+			mean: sorted.reduce((sum, latency) => sum + latency, 0) / count,
+			p50: percentile(50),
+			p90: percentile(90),
+			p99: percentile(99),
+			max: sorted[count - 1]
+		};
+	}
+}
\ No newline at end of file
@@ -0,0 +1,324 @@
+import type { IndexedDatabase, ObjectStore } from "browser-utilities";
+import type { ThrottledFetch } from "./ThrottledFetch";
+import type { Fetch, RequestThrottleOptions, ThrottleEvent, ThrottledRequestInit } from "./types";
+import { isTimeoutError } from "./utils";
+
+/**
+ * A request stored in the offline queue.
+ */
+export interface OfflineRecord {
+	/**
+	 * The auto-incremented key of the record, which determines the order of replaying.
+	 */
+	id?: number;
+
+	url: string;
+
+	method: string;
+
+	headers: [name: string, value: string][];
+
+	body: ArrayBuffer | null;
+
+	/**
+	 * The serializable options of the request, e.g. `credentials` and `cache`.
+	 */
+	init: Pick<RequestInit, "cache" | "credentials" | "integrity" | "keepalive" | "mode" | "redirect" | "referrer" | "referrerPolicy">;
+
+	priority?: number;
+
+	/**
+	 * The number of retries made so far, including the ones of previous sessions.
+	 */
+	retried: number;
+
+	/**
+	 * The time the request was made, in milliseconds since the epoch.
+	 */
+	createdAt: number;
+}
+
+export interface OfflineQueueOptions {
+	/**
+	 * The name of the object store holding the requests.
+	 * @default "offline-requests"
+	 */
+	storeName?: string;
+
+	/**
+	 * The methods of the requests to store. Requests with other methods are passed to the throttled fetch directly.
+	 * @default ["POST", "PUT", "PATCH", "DELETE"]
+	 */
+	methods?: string[];
+
+	/**
+	 * Receives the results of the requests restored from a previous session, which have no caller waiting for them.
+	 */
+	onReplayed?(request: Request, result: PromiseSettledResult<Response>): void;
+}
+
+interface Caller {
+	resolve(response: Response): void;
+
+	reject(error: any): void;
+
+	signal?: AbortSignal;
+
+	onAbort?(): void;
+}
+
+/**
+ * Checks whether the error indicates that the request may not have reached the server, so that it's worth replaying.
+ */
+function isNetworkError(error: unknown): boolean {
+	// `fetch` rejects with a `TypeError` on network failures
+	return error instanceof TypeError || isTimeoutError(error);
+}
+
+async function serialize(request: Request, priority?: number): Promise<OfflineRecord> {
+	const headers = new Array<[string, string]>();
+	request.headers.forEach((value, name) => headers.push([name, value]));
+	return {
+		url: request.url,
+		method: request.method,
+		headers,
+		body: request.body === null ? null : await request.arrayBuffer(),
+		init: {
+			cache: request.cache,
+			credentials: request.credentials,
+			integrity: request.integrity,
+			keepalive: request.keepalive,
+			// `navigate` can't be used to construct a request
+			mode: request.mode === "navigate" ? undefined : request.mode,
+			redirect: request.redirect,
+			referrer: request.referrer,
+			referrerPolicy: request.referrerPolicy
+		},
+		priority,
+		retried: 0,
+		createdAt: Date.now()
+	};
+}
+
+function deserialize(record: OfflineRecord): Request {
+	return new Request(record.url, {
+		...record.init,
+		method: record.method,
+		headers: record.headers,
+		body: record.body
+	});
+}
+
+/**
+ * A persistent queue of mutating requests, built on an IndexedDB object store.
+ * Requests are stored before being sent through the throttled fetch one at a time in order, and are only removed
+ * once settled. Requests failing because of the network, or made while offline, are kept and replayed when the
+ * app comes back online or restarts, so that they survive flaky connections and closed tabs.
+ */
+export class OfflineQueue {
+	readonly #fetch: ThrottledFetch<Fetch>;
+
+	readonly #store: ObjectStore<OfflineRecord, number>;
+
+	readonly #methods: ReadonlySet<string>;
+
+	readonly #onReplayed: OfflineQueueOptions["onReplayed"];
+
+	/**
+	 * The callers waiting for the requests made in this session, by the keys of their records.
+	 */
+	readonly #callers = new Map<number, Caller>();
+
+	/**
+	 * The keys of the records of aborted and settled requests, which are skipped by replays until deleted,
+	 * so that a request is never sent again in this session.
+	 */
+	readonly #skipped = new Set<number>();
+
+	/**
+	 * The record being sent, along with the throttle options passed with it to keep track of its retries.
+	 */
+	#sending?: { record: OfflineRecord; throttle: RequestThrottleOptions };
+
+	readonly #unsubscribe: () => void;
+
+	readonly #onOnline = () => void this.flush();
+
+	#flushing?: Promise<void>;
+
+	/**
+	 * The requests being stored.
+	 */
+	readonly #storing = new Set<Promise<unknown>>();
+
+	#closed = false;
+
+	private constructor(fetch: ThrottledFetch<Fetch>, store: ObjectStore<OfflineRecord, number>, options?: OfflineQueueOptions) {
+		this.#fetch = fetch;
+		this.#store = store;
+		this.#methods = new Set((options?.methods ?? ["POST", "PUT", "PATCH", "DELETE"]).map(m => m.toUpperCase()));
+		this.#onReplayed = options?.onReplayed;
+		this.#unsubscribe = fetch.on("started", (event: ThrottleEvent<Fetch>) => {
+			const throttle = (event.params[1] as ThrottledRequestInit | undefined)?.throttle;
+			if (this.#sending && throttle === this.#sending.throttle)
+				this.#sending.record.retried = event.attempt;
+		});
+		globalThis.addEventListener?.("online", this.#onOnline);
+	}
+
+	/**
+	 * Opens the queue, creating the object store if needed, and starts replaying the requests of previous sessions.
+	 * @param fetch The throttled fetch through which requests are sent.
+	 * @param database The database holding the object store.
+	 */
+	static async open(fetch: ThrottledFetch<Fetch>, database: IndexedDatabase, options?: OfflineQueueOptions): Promise<OfflineQueue> {
+		const store = await database.stores.getOrCreate<OfflineRecord, number>(
+			options?.storeName ?? "offline-requests",
+			{ keyPath: "id", autoIncrement: true }
+		);
+		const queue = new OfflineQueue(fetch, store, options);
+		void queue.flush();
+		return queue;
+	}
+
+	/**
+	 * Whether the environment reports being online.
+	 */
+	get online(): boolean {
+		return globalThis.navigator?.onLine !== false;
+	}
+
+	/**
+	 * Makes a request through the queue. Requests with one of the configured methods are stored first,
+	 * and the returned promise settles once the request is eventually sent, which may take until the app
+	 * is back online. Other requests are passed to the throttled fetch directly.
+	 * Aborting the signal of the request removes it from the queue.
+	 */
+	async fetch(input: RequestInfo | URL, init?: ThrottledRequestInit): Promise<Response> {
+		if (this.#closed)
+			throw new Error("Offline queue has been closed");
+		const request = new Request(input, init);
+		if (!this.#methods.has(request.method))
+			return this.#fetch.invoke(input, init);
+		const { signal } = request;
+		signal.throwIfAborted();
+		return new Promise((resolve, reject) => {
+			const caller: Caller = { resolve, reject, signal };
+			const register = (id: number) => {
+				// Registered right after storing, before any replay can pick up the record
+				caller.onAbort = () => {
+					// Requests being sent are rejected by the throttled fetch
+					if (this.#sending?.record.id === id)
+						return;
+					this.#callers.delete(id);
+					reject(signal.reason);
+					this.#skipped.add(id);
+					// The request is replayed in a later session if its record can't be deleted
+					this.#store.delete(id).then(() => this.#skipped.delete(id), () => { });
+				};
+				signal.addEventListener("abort", caller.onAbort, { once: true });
+				this.#callers.set(id, caller);
+				if (signal.aborted)
+					caller.onAbort();
+			};
+			const storing = serialize(request, init?.throttle?.priority)
+				.then(record => this.#store.add(record))
+				.then(register);
+			this.#storing.add(storing);
+			storing
+				.finally(() => this.#storing.delete(storing))
+				.then(() => void this.flush(), reject);
+		});
+	}
+
+	/**
+	 * Sends the stored requests in order, until the queue is empty or a request fails because of the network.
+	 * Called automatically when a request is added and when the app comes back online.
+	 * If the object store fails, flushing stops and the callers waiting for their requests are rejected with the error.
+	 * Requests that were sent settle their callers regardless, and are not sent again in this session.
+	 * @returns A promise that resolves once flushing stops.
+	 */
+	async flush(): Promise<void> {
+		await Promise.allSettled(this.#storing);
+		if (this.#closed || !this.online)
+			return;
+		this.#flushing ??= this.#flush()
+			.catch(error => this.#abandon(error))
+			.finally(() => this.#flushing = undefined);
+		return this.#flushing;
+	}
+
+	async #flush() {
+		while (!this.#closed && this.online) {
+			const records = await this.#store.getAll(undefined, this.#skipped.size + 1);
+			const record = records.find(record => !this.#skipped.has(record.id!));
+			if (record === undefined || !await this.#send(record))
+				return;
+		}
+	}
+
+	/**
+	 * Sends a stored request, and removes it from the store unless it failed because of the network.
+	 * @returns `false` if the request is kept for a later replay.
+	 */
+	async #send(record: OfflineRecord): Promise<boolean> {
+		const id = record.id!;
+		const caller = this.#callers.get(id);
+		const request = deserialize(record);
+		const throttle: RequestThrottleOptions = { priority: record.priority, retried: record.retried };
+		const init: ThrottledRequestInit = { throttle, signal: caller?.signal };
+		this.#sending = { record, throttle };
+		let result: PromiseSettledResult<Response>;
+		try {
+			const value = await this.#fetch.invoke(request, init);
+			result = { status: "fulfilled", value };
+		}
+		catch (reason) {
+			if (isNetworkError(reason) && !caller?.signal?.aborted) {
+				await this.#store.put(record);
+				return false;
+			}
+			result = { status: "rejected", reason };
+		}
+		finally {
+			this.#sending = undefined;
+		}
+		this.#skipped.add(id);
+		// The request has gone through, so the caller gets the result even if the record can't be deleted
+		if (caller) {
+			this.#callers.delete(id);
+			caller.signal?.removeEventListener("abort", caller.onAbort!);
+			if (result.status === "fulfilled")
+				caller.resolve(result.value);
+			else
+				caller.reject(result.reason);
+		}
+		else
+			this.#onReplayed?.(deserialize(record), result);
+		await this.#store.delete(id);
+		this.#skipped.delete(id);
+		return true;
+	}
+
+	/**
+	 * Rejects all waiting callers, as their requests may not be sent in this session after the store failed.
+	 * The requests stay stored, so that they can still be replayed without callers later.
+	 */
+	#abandon(error: unknown) {
+		const callers = Array.from(this.#callers.values());
+		this.#callers.clear();
+		for (const caller of callers) {
+			caller.signal?.removeEventListener("abort", caller.onAbort!);
+			caller.reject(error);
+		}
+	}
+
+	/**
+	 * Stops replaying requests. Stored requests are kept for the next session.
+	 */
+	close(): void {
+		this.#closed = true;
+		this.#unsubscribe();
+		globalThis.removeEventListener?.("online", this.#onOnline);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+import type { TaskPool } from "./TaskPool";
+import type { TaskEvent, ThrottleEventType } from "./types";
+
+/**
+ * The controls shared by the front ends distributing requests to sets of pools, i.e. `ThrottledFetch`
+ * and `TaskThrottler`, which act on all of their pools at once.
+ * @template TPool The type of the pools.
+ * @template TEvent The type of the events emitted by the pools.
+ */
+export abstract class PoolGroup<TPool extends TaskPool<any, any>, TEvent extends TaskEvent<any, any>> {
+	protected readonly _listeners = new Map<ThrottleEventType, Set<(event: TEvent) => void>>();
+
+	protected _paused = false;
+
+	/**
+	 * Yields all pools, including the replaced ones still having active or waiting requests.
+	 */
+	protected abstract getPools(): Iterable<TPool>;
+
+	protected emit(event: TEvent) {
+		const listeners = this._listeners.get(event.type);
+		if (!listeners)
+			return;
+		for (const listener of listeners) {
+			try {
+				listener(event);
+			}
+			catch (error) {
+				// A faulty listener must not keep the event from the other listeners
+				queueMicrotask(() => { throw error; });
+			}
+		}
+	}
+
+	/**
+	 * Whether all pools are paused via `pause`.
+	 */
+	get paused(): boolean {
+		return this._paused;
+	}
+
+	/**
+	 * Stops starting waiting requests in all pools, including the ones created later, until `resume` is called.
+	 * Requests can still be added, and active requests are not affected.
+	 */
+	pause(): void {
+		if (this._paused)
+			return;
+		this._paused = true;
+		for (const pool of this.getPools())
+			pool.pause();
+	}
+
+	/**
+	 * Resumes starting waiting requests after `pause`. Pools paused on their own, e.g. via the handles of rules,
+	 * stay paused.
+	 */
+	resume(): void {
+		if (!this._paused)
+			return;
+		this._paused = false;
+		for (const pool of this.getPools())
+			pool.resume();
+	}
+
+	/**
+	 * Waits until no pool has active or waiting requests.
+	 * Note that paused pools with waiting requests only become idle after being resumed or cleared.
+	 */
+	async idle(): Promise<void> {
+		while (true) {
+			// Requests may be added while waiting, so check again until all pools are idle at the same time
+			const busy = Array.from(this.getPools()).filter(pool => pool.active > 0 || pool.waiting > 0);
+			if (busy.length === 0)
+				return;
+			await Promise.all(busy.map(pool => pool.idle()));
+		}
+	}
+
+	/**
+	 * Rejects the waiting requests of all pools, including those waiting for a retry. Active requests are not affected.
+	 * @param reason The reason of the rejection. Defaults to a `DOMException` named `AbortError`.
+	 * @returns The number of rejected requests.
+	 */
+	clear(reason?: any): number {
+		let count = 0;
+		for (const pool of this.getPools())
+			count += pool.clear(reason);
+		return count;
+	}
+
+	/**
+	 * Subscribes to the lifecycle events of requests, e.g. to collect metrics.
+	 * Listeners are invoked synchronously, and errors thrown by them are rethrown asynchronously.
+	 * @param type The type of events to listen to.
+	 * @param listener The function receiving the events.
+	 * @returns A function that unsubscribes the listener.
+	 */
+	on(type: ThrottleEventType, listener: (event: TEvent) => void): () => void {
+		let listeners = this._listeners.get(type);
+		if (listeners === undefined) {
+			listeners = new Set();
+			this._listeners.set(type, listeners);
+		}
+		listeners.add(listener);
+		return () => this.off(type, listener);
+	}
+
+	/**
+	 * Unsubscribes a listener previously added via `on`.
+	 * @param type The type of events the listener was subscribed to.
+	 * @param listener The listener to remove.
+	 */
+	off(type: ThrottleEventType, listener: (event: TEvent) => void): void {
+		this._listeners.get(type)?.delete(listener);
+	}
+}
\ No newline at end of file
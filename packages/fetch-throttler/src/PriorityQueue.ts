@@ -0,0 +1,121 @@
+export interface PriorityQueueNode<T> {
+	readonly value: T;
+
+	readonly rank: number;
+
+	readonly seq: number;
+
+	/**
+	 * The position of the node in the heap, or -1 if the node is no longer in the queue.
+	 */
+	index: number;
+}
+
+/**
+ * A max-heap based priority queue. Nodes with higher rank are dequeued first, and nodes with equal rank
+ * are dequeued in insertion order. Any node can be removed in logarithmic time.
+ */
+export class PriorityQueue<T> {
+	readonly #heap = new Array<PriorityQueueNode<T>>();
+
+	#seq = 0;
+
+	get size(): number {
+		return this.#heap.length;
+	}
+
+	push(value: T, rank: number = 0): PriorityQueueNode<T> {
+		const node: PriorityQueueNode<T> = { value, rank, seq: this.#seq++, index: this.#heap.length };
+		this.#heap.push(node);
+		this.#up(node.index);
+		return node;
+	}
+
+	peek(): T | undefined {
+		return this.#heap[0]?.value;
+	}
+
+	/**
+	 * Gets the value that would be dequeued last, which is one of the leaves of the heap.
+	 */
+	last(): T | undefined {
+		let last: PriorityQueueNode<T> | undefined;
+		for (let i = this.#heap.length >> 1; i < this.#heap.length; ++i) {
+			if (last === undefined || this.#before(last, this.#heap[i]))
+				last = this.#heap[i];
+		}
+		return last?.value;
+	}
+
+	shift(): T | undefined {
+		const node = this.#heap[0];
+		if (node === undefined)
+			return undefined;
+		this.remove(node);
+		return node.value;
+	}
+
+	/**
+	 * Removes a node from the queue. Nothing happens if the node is not in the queue.
+	 */
+	remove(node: PriorityQueueNode<T>): void {
+		const index = node.index;
+		if (index < 0 || this.#heap[index] !== node)
+			return;
+		node.index = -1;
+		const last = this.#heap.pop()!;
+		if (last === node)
+			return;
+		this.#set(index, last);
+		if (index > 0 && this.#before(last, this.#heap[(index - 1) >> 1]))
+			this.#up(index);
+		else
+			this.#down(index);
+	}
+
+	/**
+	 * Iterates over the values in no particular order.
+	 */
+	*[Symbol.iterator](): Generator<T> {
+		for (const node of this.#heap)
+			yield node.value;
+	}
+
+	#before(a: PriorityQueueNode<T>, b: PriorityQueueNode<T>): boolean {
+		return a.rank > b.rank || a.rank === b.rank && a.seq < b.seq;
+	}
+
+	#set(index: number, node: PriorityQueueNode<T>) {
+		this.#heap[index] = node;
+		node.index = index;
+	}
+
+	#up(index: number) {
+		const node = this.#heap[index];
+		while (index > 0) {
+			const parent = (index - 1) >> 1;
+			if (!this.#before(node, this.#heap[parent]))
+				break;
+			this.#set(index, this.#heap[parent]);
+			index = parent;
+		}
+		this.#set(index, node);
+	}
+
+	#down(index: number) {
+		const node = this.#heap[index];
+		const length = this.#heap.length;
+		while (true) {
+			let child = 2 * index + 1;
+			if (child >= length)
+				break;
+			if (child + 1 < length && this.#before(this.#heap[child + 1], this.#heap[child]))
+				++child;
+			if (!this.#before(this.#heap[child], node))
+				break;
+			this.#set(index, this.#heap[child]);
+			index = child;
+		}
+		this.#set(index, node);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,200 @@
+import type { RateLimit } from "./types";
+
+/**
+ * Decides when the next request may start.
+ */
+export interface RateLimiter {
+	/**
+	 * Gets the time in milliseconds to wait before another request can start.
+	 * @param now The current timestamp.
+	 * @param cost The number of units the request consumes. A cost exceeding the capacity of the limiter is capped to it.
+	 * @returns 0 if a request can start right away.
+	 */
+	delay(now: number, cost?: number): number;
+
+	/**
+	 * Records the start of a request.
+	 * @param now The current timestamp.
+	 * @param cost The number of units the request consumes.
+	 */
+	acquire(now: number, cost?: number): void;
+}
+
+/**
+ * Allows at most `limit` requests to start within any time window of length `window`.
+ */
+export class SlidingWindowLimiter implements RateLimiter {
+	#timestamps: number[];
+
+	#count = 0;
+
+	#limit: number;
+
+	constructor(limit: number, public window: number) {
+		this.#limit = limit;
+		this.#timestamps = new Array<number>(limit);
+	}
+
+	get limit(): number {
+		return this.#limit;
+	}
+
+	/**
+	 * Rounds the cost up to whole timestamps, within the capacity of the window.
+	 */
+	#units(cost: number): number {
+		return Math.min(this.#limit, Math.ceil(cost));
+	}
+
+	delay(now: number, cost: number = 1): number {
+		const recorded = Math.min(this.#count, this.#limit);
+		const excess = recorded + this.#units(cost) - this.#limit;
+		if (excess <= 0)
+			return 0;
+		// The timestamps are ordered from the slot to be overwritten next, which holds the oldest one,
+		// and the excessive ones among the oldest must leave the window
+		const expiring = this.#timestamps[(this.#count - recorded + excess - 1) % this.#limit];
+		return Math.max(0, expiring + this.window - now);
+	}
+
+	acquire(now: number, cost: number = 1): void {
+		for (let i = this.#units(cost); i > 0; --i)
+			this.#timestamps[this.#count++ % this.#limit] = now;
+	}
+
+	/**
+	 * Changes the limit, keeping the most recent timestamps.
+	 */
+	resize(limit: number): void {
+		if (limit === this.#limit)
+			return;
+		const count = Math.min(this.#count, this.#limit, limit);
+		const timestamps = new Array<number>(limit);
+		for (let i = 0; i < count; ++i)
+			timestamps[i] = this.#timestamps[(this.#count - count + i) % this.#limit];
+		this.#timestamps = timestamps;
+		this.#count = count;
+		this.#limit = limit;
+	}
+}
+
+/**
+ * Holds up to `burst` tokens, refilled at `rate` tokens per `period`. Each request consumes as many tokens as it costs.
+ */
+export class TokenBucketLimiter implements RateLimiter {
+	#tokens: number;
+
+	#updated?: number;
+
+	constructor(readonly rate: number, readonly period: number, readonly burst: number) {
+		this.#tokens = burst;
+	}
+
+	#refill(now: number) {
+		// Starts shared by other contexts may be recorded slightly late, so time never goes backwards here
+		if (this.#updated !== undefined && now < this.#updated)
+			return;
+		if (this.#updated !== undefined)
+			this.#tokens = Math.min(this.burst, this.#tokens + (now - this.#updated) * this.rate / this.period);
+		this.#updated = now;
+	}
+
+	delay(now: number, cost: number = 1): number {
+		this.#refill(now);
+		const required = Math.min(cost, this.burst);
+		return this.#tokens >= required ? 0 : Math.ceil((required - this.#tokens) * this.period / this.rate);
+	}
+
+	acquire(now: number, cost: number = 1): void {
+		this.#refill(now);
+		this.#tokens -= Math.min(cost, this.burst);
+	}
+}
+
+/**
+ * Follows the budget reported by the server, e.g. via the `X-RateLimit-*` headers of its responses.
+ * Once the budget is used up, requests wait until it resets.
+ */
+export class ReportedRateLimiter implements RateLimiter {
+	#remaining?: number;
+
+	/**
+	 * The timestamp when the reported budget resets.
+	 */
+	#resetAt?: number;
+
+	/**
+	 * The remaining budget, or `undefined` if no budget is known or it has reset.
+	 */
+	get remaining(): number | undefined {
+		return this.#remaining;
+	}
+
+	/**
+	 * The timestamp when the reported budget resets, or `undefined` if no budget is known.
+	 */
+	get resetAt(): number | undefined {
+		return this.#resetAt;
+	}
+
+	#expire(now: number) {
+		if (this.#resetAt !== undefined && now >= this.#resetAt)
+			this.#remaining = this.#resetAt = undefined;
+	}
+
+	delay(now: number, cost: number = 1): number {
+		this.#expire(now);
+		return this.#remaining === undefined || this.#remaining >= cost
+			? 0
+			: this.#resetAt! - now;
+	}
+
+	acquire(now: number, cost: number = 1): void {
+		this.#expire(now);
+		if (this.#remaining !== undefined)
+			this.#remaining = Math.max(0, this.#remaining - cost);
+	}
+
+	/**
+	 * Records the budget reported by the server.
+	 * @param now The current timestamp.
+	 * @param remaining The remaining budget, which doesn't count the requests started since the response was sent.
+	 * @param reset The time in milliseconds until the budget resets.
+	 */
+	update(now: number, remaining: number, reset: number): void {
+		this.#expire(now);
+		const resetAt = now + reset;
+		// Responses of the same window may arrive out of order, and requests started since are already counted
+		if (this.#remaining !== undefined && Math.abs(resetAt - this.#resetAt!) < 1000)
+			remaining = Math.min(remaining, this.#remaining);
+		this.#remaining = remaining;
+		this.#resetAt = resetAt;
+	}
+}
+
+/**
+ * Creates a rate limiter from its configuration.
+ * @throws {TypeError} If the type of the rate limit is unknown.
+ * @throws {RangeError} If any numeric option is not positive.
+ */
+export function createRateLimiter(config: RateLimit): RateLimiter {
+	const assertPositive = (name: string, value: number) => {
+		if (!(value > 0))
+			throw new RangeError(`Invalid ${name} of ${config.type} rate limit: ${value}`);
+	};
+	switch (config.type) {
+		case "sliding-window":
+			assertPositive("limit", config.limit);
+			assertPositive("window", config.window);
+			return new SlidingWindowLimiter(config.limit, config.window);
+		case "token-bucket": {
+			const { rate, period = 1000, burst = rate } = config;
+			assertPositive("rate", rate);
+			assertPositive("period", period);
+			assertPositive("burst", burst);
+			return new TokenBucketLimiter(rate, period, burst);
+		}
+		default:
+			throw new TypeError(`Invalid rate limit: ${JSON.stringify(config)}`);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import type { CoalesceConfig, ExtendedFetch, FetchParams, FetchReturn, RequestDescriptor } from "./types";
+import { withSignal } from "./utils";
+
+interface Caller<R> {
+	resolve(result: R): void;
+
+	reject(error: any): void;
+
+	signal?: AbortSignal;
+
+	onAbort?(): void;
+}
+
+interface SharedRequest<R> {
+	readonly callers: Set<Caller<R>>;
+
+	/**
+	 * Aborts the shared request once all callers have aborted.
+	 */
+	readonly controller: AbortController;
+}
+
+/**
+ * Lets identical requests made at the same time share a single underlying request.
+ * Every caller receives its own clone of the response, so that each of them can consume the body.
+ */
+export class RequestCoalescer<T extends ExtendedFetch<any, any, any>> {
+	readonly #requests = new Map<string, SharedRequest<FetchReturn<T>>>();
+
+	readonly #headers: readonly string[];
+
+	readonly #key?: CoalesceConfig["key"];
+
+	constructor(config: CoalesceConfig) {
+		this.#headers = (config.headers ?? []).map(h => h.toLowerCase()).sort();
+		this.#key = config.key;
+	}
+
+	/**
+	 * The number of shared requests in flight.
+	 */
+	get size(): number {
+		return this.#requests.size;
+	}
+
+	/**
+	 * Gets the key identifying identical requests, or `undefined` if the request must not be coalesced.
+	 * By default, only `GET` and `HEAD` requests are coalesced, keyed by their method, URL and the configured headers.
+	 */
+	getKey(request: RequestDescriptor): string | undefined {
+		if (this.#key) {
+			const [input, init] = request.params as [RequestInfo | URL, RequestInit?];
+			return this.#key(input, init) ?? undefined;
+		}
+		const { method } = request;
+		if (method !== "GET" && method !== "HEAD")
+			return undefined;
+		let key = `${method} ${request.url.href}`;
+		for (const name of this.#headers)
+			key += `\n${name}: ${request.headers.get(name) ?? ""}`;
+		return key;
+	}
+
+	/**
+	 * Joins the request with the given key if there is one in flight, or starts it via `send` otherwise.
+	 * @param signal The abort signal of the caller, which only rejects this caller unless all callers have aborted.
+	 * @param send Sends the shared request with the given parameters, whose abort signal is controlled by the coalescer.
+	 * Errors thrown by it reject the callers.
+	 */
+	run(key: string, args: FetchParams<T>, signal: AbortSignal | undefined, send: (args: FetchParams<T>) => Promise<FetchReturn<T>>): Promise<FetchReturn<T>> {
+		if (signal?.aborted)
+			return Promise.reject(signal.reason);
+		let shared = this.#requests.get(key);
+		const created = shared === undefined;
+		if (shared === undefined) {
+			shared = { callers: new Set(), controller: new AbortController() };
+			this.#requests.set(key, shared);
+		}
+		const { callers, controller } = shared;
+		const detach = () => {
+			if (this.#requests.get(key) === shared)
+				this.#requests.delete(key);
+		};
+		const promise = new Promise<FetchReturn<T>>((resolve, reject) => {
+			const caller: Caller<FetchReturn<T>> = { resolve, reject, signal };
+			callers.add(caller);
+			if (signal === undefined)
+				return;
+			caller.onAbort = () => {
+				callers.delete(caller);
+				reject(signal.reason);
+				if (callers.size > 0)
+					return;
+				// Later requests must not join the aborted one
+				detach();
+				controller.abort(signal.reason);
+			};
+			signal.addEventListener("abort", caller.onAbort, { once: true });
+		});
+		if (created) {
+			const settle = () => {
+				detach();
+				const list = Array.from(callers);
+				callers.clear();
+				for (const caller of list) {
+					if (caller.onAbort)
+						caller.signal!.removeEventListener("abort", caller.onAbort);
+				}
+				return list;
+			};
+			let sent: Promise<FetchReturn<T>>;
+			try {
+				sent = send(withSignal(args, controller.signal));
+			}
+			catch (error) {
+				// The shared request must be settled anyway, or identical requests would keep joining it
+				sent = Promise.reject(error);
+			}
+			sent.then(
+				result => {
+					const [first, ...rest] = settle();
+					// Clone for the other callers before the first one gets the chance to consume the body
+					for (const caller of rest)
+						caller.resolve(typeof result?.clone == "function" ? result.clone() : result);
+					first?.resolve(result);
+				},
+				error => settle().forEach(caller => caller.reject(error))
+			);
+		}
+		return promise;
+	}
+}
\ No newline at end of file
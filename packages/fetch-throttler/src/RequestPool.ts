@@ -1,158 +1,45 @@
-import { Promisable } from "type-fest";
-import type { Fetch, ExtendedFetch, FetchParams, FetchReturn, ThrottleConfig } from "./types";
-import { fillDefaults } from "./utils";
-
-interface QueueItem<T extends ExtendedFetch<any, any, any>> {
-	params: FetchParams<T>;
-
-	retried: number;
-
-	onSuccess?(response: FetchReturn<T>): void;
-
-	onFailure?(error: Error): void;
+import type { SetOptional } from "type-fest";
+import type { ExtendedFetch, Fetch, FetchParams, FetchReturn, ThrottleConfig, ThrottleEventListener } from "./types";
+import { TaskPool, type TaskOptions, type TaskPoolOptions } from "./TaskPool";
+import { withSignal } from "./utils";
+
+export type RequestOptions = TaskOptions<Response>;
+
+export interface RequestPoolOptions<T extends ExtendedFetch<any, any, any>>
+	extends Omit<TaskPoolOptions<FetchParams<T>, FetchReturn<T>>, "onEvent" | "withSignal" | "isFailure" | "isOutage" | "peek"> {
+	/**
+	 * A listener receiving the lifecycle events of the requests in the pool.
+	 */
+	onEvent?: ThrottleEventListener<T>;
 }
 
-export class RequestPool<T extends ExtendedFetch<any, any, any> = Fetch> {
-	readonly #queue: QueueItem<T>[];
-
-	readonly #timestamps?: number[];
-
-	readonly #adapter: T;
-
-	#index = 0;
-
-	#end = 0;
-
-	#concurrency = 0;
-
-	readonly #shouldRetry: ThrottleConfig["shouldRetry"];
-
-	readonly maxConcurrency: number;
-
-	readonly interval: number;
-
-	readonly maxRetry: number;
-
-	readonly capacity: number;
-
-	constructor(init: ThrottleConfig, adapter: T) {
-		const config = fillDefaults(init);
-		this.maxConcurrency = config.maxConcurrency > 0 ? config.maxConcurrency : Infinity;
-		this.interval = Math.max(0, config.interval);
-		this.maxRetry = Math.max(0, config.maxRetry);
-		this.capacity = Math.max(0, config.capacity);
-		this.#shouldRetry = config.shouldRetry;
-		this.#adapter = adapter;
-		this.#queue = this.capacity > 0
-			? new Array<QueueItem<T>>(this.capacity)
-			: new Array<QueueItem<T>>();
-		if (config.maxConcurrency > 0 && config.interval > 0)
-			this.#timestamps = new Array<number>(config.maxConcurrency);
-	}
-
-	get #nextTimestamp(): number | undefined {
-		if (!this.#timestamps)
-			return undefined;
-		if (this.#index < this.maxConcurrency)
-			return 0;
-		const idx = this.#index % this.maxConcurrency;
-		return this.#timestamps[idx] + this.interval;
-	}
-
-	get completed(): number {
-		return this.#index - this.#concurrency;
-	}
-
-	get active(): number {
-		return this.#concurrency;
-	}
-
-	get waiting(): number {
-		return this.#end - this.#index;
-	}
-
-	#pop(): QueueItem<T> | undefined {
-		if (this.#index >= this.#end)
-			return undefined;
-		const item = this.#queue[this.capacity ? this.#index % this.capacity : this.#index];
-		if (this.#timestamps)
-			this.#timestamps[this.#index % this.maxConcurrency] = Date.now();
-		++this.#index;
-		return item;
-	}
-
-	#push(item: QueueItem<T>) {
-		if (this.capacity)
-			this.#queue[this.#end % this.capacity] = item;
-		else
-			this.#queue.push(item);
-		++this.#end;
-	}
-
-	#handleResult_(item: QueueItem<T>, result: any, success: boolean, shouldRetry: boolean | undefined | void): Promisable<void> {
-		if (shouldRetry === undefined) { // Default behavior
-			if (!success)
-				item.onFailure?.(result);
-			else {
-				const res = result as FetchReturn<T>;
-				if (!res.ok && item.retried < this.maxRetry) {
-					++item.retried;
-					this.#push(item);
-				}
-				else
-					item.onSuccess?.(res); // Even if !res.ok, we consider it a success, matching the default fetch behavior
-			}
-		}
-		else {
-			if (shouldRetry && item.retried < this.maxRetry) {
-				++item.retried;
-				this.#push(item);
-			}
-			else if (shouldRetry || !success)
-				item.onFailure?.(result);
-			else
-				item.onSuccess?.(result);
-		}
-	}
-
-	#handleResult(item: QueueItem<T>, result: any, success: boolean): Promisable<void> {
-		const shouldRetry = this.#shouldRetry?.(result);
-		return typeof shouldRetry === "object"
-			? shouldRetry.then(retry => this.#handleResult_(item, result, success, retry))
-			: this.#handleResult_(item, result, success, shouldRetry);
-	}
-
-	#process() {
-		if (this.#concurrency >= this.maxConcurrency)
-			return;
-		const nextTime = this.#nextTimestamp;
-		if (nextTime != undefined) {
-			const now = Date.now();
-			if (now < nextTime) {
-				setTimeout(() => this.#process(), nextTime - now);
-				return;
-			}
-		}
-		const item = this.#pop();
-		if (item == undefined)
-			return;
-		++this.#concurrency;
-		this.#adapter(...item.params as unknown as FetchParams)
-			.finally(() => --this.#concurrency)
-			.then(resp => this.#handleResult(item, resp, true))
-			.catch(error => this.#handleResult(item, error, false))
-			.finally(() => this.#process());
-	}
-
-	add(request: FetchParams<T>, onSuccess?: (response: FetchReturn<T>) => void, onFailure?: (error: any) => void) {
-		if (this.capacity > 0 && this.#end - this.#index >= this.capacity)
-			throw new Error("Request pool is full");
-		this.#push({
-			params: request,
-			retried: 0,
-			onSuccess,
-			onFailure
+/**
+ * A `TaskPool` making fetch requests via an adapter. Non-ok responses are retried by default,
+ * and the abort signal of an attempt is passed to the adapter via the init of the request.
+ * `shouldRetry` receives clones of the responses, so that it can read their bodies.
+ */
+export class RequestPool<T extends ExtendedFetch<any, any, any> = Fetch> extends TaskPool<FetchParams<T>, FetchReturn<T>> {
+	/**
+	 * The options the pool was created with, with the defaults filled in.
+	 */
+	declare readonly config: Readonly<SetOptional<Required<ThrottleConfig>, "shouldRetry">>;
+
+	/**
+	 * The maximum size in bytes of a one-shot request body that is buffered, so that retries can resend it.
+	 */
+	readonly maxReplayBodySize: number;
+
+	constructor(init: ThrottleConfig, adapter: T, options?: RequestPoolOptions<T>) {
+		const onEvent = options?.onEvent;
+		super(init, adapter as (...args: FetchParams<T>) => Promise<FetchReturn<T>>, {
+			...options,
+			onEvent: onEvent && (event => onEvent({ ...event, response: event.result })),
+			withSignal,
+			isFailure: response => !response.ok,
+			isOutage: response => response.status === 429 || response.status >= 500,
+			// A response whose body was read, e.g. by a middleware, can't be cloned
+			peek: response => typeof response?.clone == "function" && !response.bodyUsed ? response.clone() : response
 		});
-		this.#process();
+		this.maxReplayBodySize = Math.max(0, this.config.maxReplayBodySize);
 	}
 }
\ No newline at end of file
@@ -0,0 +1,1068 @@
+import { Promisable, SetOptional } from "type-fest";
+import type {
+	CircuitState, Clock, LatencyStats, OverflowPolicy, RateLimit, RetryBackoff, TaskEvent, TaskEventListener,
+	ThrottleChannel, ThrottleConfig, ThrottleEventType
+} from "./types";
+import { AdaptiveController } from "./AdaptiveController";
+import { CircuitBreaker, CircuitOpenError } from "./CircuitBreaker";
+import { systemClock } from "./Clock";
+import { LatencySampler } from "./LatencySampler";
+import { PriorityQueue, type PriorityQueueNode } from "./PriorityQueue";
+import { createRateLimiter, ReportedRateLimiter, SlidingWindowLimiter, type RateLimiter } from "./RateLimiter";
+import { fillAdaptiveDefaults, fillCircuitBreakerDefaults, fillDefaults, isThrottlingResponse, isTimeoutError, parseRateLimitHeaders, parseRetryAfter } from "./utils";
+
+export interface TaskOptions<TResult = unknown> {
+	/**
+	 * A signal that cancels the request. A waiting request is removed from the queue immediately,
+	 * while an active one is rejected without waiting for the task to settle.
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * The priority of the request. Requests with higher priority are dequeued first.
+	 * @default 0
+	 */
+	priority?: number;
+	/**
+	 * The number of retries already made for the request.
+	 * @default 0
+	 */
+	retried?: number;
+
+	/**
+	 * Overrides `maxRetry` of the pool for the request.
+	 */
+	maxRetry?: number;
+
+	/**
+	 * Decides whether to retry the request before `shouldRetry` of the pool, which is consulted if it returns `undefined`.
+	 */
+	shouldRetry?: ThrottleConfig<TResult>["shouldRetry"];
+
+	/**
+	 * Overrides `timeout` of the pool for the request.
+	 */
+	timeout?: number;
+
+	/**
+	 * Overrides `cost` of the pool for the request.
+	 */
+	cost?: number;
+}
+
+export interface TaskPoolOptions<TArgs extends unknown[], TResult> {
+	/**
+	 * The key identifying the pool in events.
+	 * @default ""
+	 */
+	key?: string;
+
+	/**
+	 * A listener receiving the lifecycle events of the requests in the pool.
+	 */
+	onEvent?: TaskEventListener<TArgs, TResult>;
+
+	/**
+	 * Resolves the pools whose limits a request must satisfy as well, e.g. the pool of its domain.
+	 * A request only starts once all of them have a free concurrency slot and no pending rate limit,
+	 * and occupies a slot in each of them while active.
+	 */
+	parents?(params: TArgs): TaskPool<TArgs, TResult>[];
+
+	/**
+	 * Shares the state of the pool with the pools of the same key in other contexts.
+	 * Requests active in other contexts count towards the concurrency, and their starts towards the rate limits.
+	 */
+	channel?: ThrottleChannel;
+
+	/**
+	 * The source of time and timers of the pool.
+	 * @default The system clock
+	 */
+	clock?: Clock;
+
+	/**
+	 * Passes the abort signal of an attempt to the task, e.g. via the init of a fetch call.
+	 * Without it, timed out and aborted attempts are still rejected, but the task itself keeps running.
+	 */
+	withSignal?(params: TArgs, signal: AbortSignal): TArgs;
+
+	/**
+	 * Checks whether a result indicates a failure, e.g. a non-ok response, so that it's retried by default.
+	 * A failed result is still resolved once the retries are exhausted.
+	 * @default Every result is a success
+	 */
+	isFailure?(result: TResult): boolean;
+
+	/**
+	 * Checks whether a result indicates that the service is failing, e.g. a 5xx response, so that it counts
+	 * as a failure of the circuit breaker. Errors always count.
+	 * @default Only errors count
+	 */
+	isOutage?(result: TResult): boolean;
+
+	/**
+	 * Gets the copy of a result passed to `shouldRetry`, e.g. a clone of a response, so that reading it there
+	 * doesn't consume the result the caller receives.
+	 * @default The result itself
+	 */
+	peek?(result: TResult): TResult;
+
+	/**
+	 * Wraps each attempt, e.g. to rewrite the parameters of a retry or to transform the result.
+	 * @param params The parameters of the request, carrying the abort signal of the attempt if `withSignal` is given.
+	 * @param attempt The 1-based number of the attempt.
+	 * @param call Calls the task with the given parameters.
+	 */
+	intercept?(params: TArgs, attempt: number, call: (params: TArgs) => Promise<TResult>): Promisable<TResult>;
+}
+
+interface QueueItem<TArgs extends unknown[], TResult> {
+	params: TArgs;
+
+	retried: number;
+
+	settled: boolean;
+
+	priority: number;
+
+	signal?: AbortSignal;
+
+	readonly maxRetry?: number;
+
+	readonly shouldRetry?: ThrottleConfig<TResult>["shouldRetry"];
+
+	readonly timeout?: number;
+
+	readonly cost?: number;
+
+	/**
+	 * Whether the request is the probe of the half-open circuit breaker, until its first attempt completes.
+	 */
+	probe?: boolean;
+
+	node?: PriorityQueueNode<QueueItem<TArgs, TResult>>;
+
+	/**
+	 * The timestamp when the request was added to the pool.
+	 */
+	createdAt: number;
+
+	/**
+	 * The timestamp when the request was last pushed into the queue.
+	 */
+	queuedAt: number;
+
+	/**
+	 * The time the current attempt waited in the queue.
+	 */
+	queueTime: number;
+
+	/**
+	 * The timestamp when the current attempt started.
+	 */
+	startedAt?: number;
+
+	/**
+	 * The duration of the last completed attempt.
+	 */
+	latency?: number;
+
+	/**
+	 * The timer of a pending retry delay.
+	 */
+	timer?: unknown;
+
+	/**
+	 * The timer rejecting the request once its deadline is exceeded.
+	 */
+	deadlineTimer?: unknown;
+
+	/**
+	 * The parent pools in which the current attempt occupies a slot.
+	 */
+	parents?: TaskPool<TArgs, TResult>[];
+
+	/**
+	 * The controller of the current attempt, if the pool controls the signal passed to the task.
+	 */
+	controller?: AbortController;
+
+	/**
+	 * Fails the current attempt right away, without waiting for the task to settle.
+	 */
+	expire?(error: Error): void;
+
+	onAbort?(): void;
+
+	onSuccess?(response: TResult): void;
+
+	onFailure?(error: Error): void;
+}
+
+/**
+ * Queues the calls of an async task, referred to as requests, and starts them according to the concurrency,
+ * rate limits, retries and other options of a `ThrottleConfig`.
+ * @template TArgs The parameters of the task.
+ * @template TResult The result the task resolves with.
+ */
+export class TaskPool<TArgs extends unknown[] = unknown[], TResult = unknown> {
+	readonly #queue = new PriorityQueue<QueueItem<TArgs, TResult>>();
+
+	readonly #limiters = new Array<RateLimiter>();
+
+	/**
+	 * The limiter enforcing `interval`, which is adjusted by the adaptive mode.
+	 */
+	#intervalLimiter?: SlidingWindowLimiter;
+
+	/**
+	 * The limiter following the budget reported by the rate limit headers of responses.
+	 */
+	readonly #reportedLimiter?: ReportedRateLimiter;
+
+	readonly #adaptive?: AdaptiveController;
+
+	readonly #breaker?: CircuitBreaker;
+
+	/**
+	 * The timer waking up the pool once the rate limiters allow another request to start.
+	 */
+	#timer?: unknown;
+
+	readonly #task: (...args: TArgs) => Promise<TResult>;
+
+	readonly #withSignal?: (params: TArgs, signal: AbortSignal) => TArgs;
+
+	readonly #isFailure?: (result: TResult) => boolean;
+
+	readonly #isOutage?: (result: TResult) => boolean;
+
+	readonly #peek?: (result: TResult) => TResult;
+
+	readonly #intercept?: TaskPoolOptions<TArgs, TResult>["intercept"];
+
+	readonly #clock: Clock;
+
+	#started = 0;
+
+	#concurrency = 0;
+
+	/**
+	 * The requests waiting for the delay before their retries.
+	 */
+	readonly #delayed = new Set<QueueItem<TArgs, TResult>>();
+
+	/**
+	 * The requests waiting for room in the full queue, in the order they were added.
+	 */
+	readonly #pending = new Set<QueueItem<TArgs, TResult>>();
+
+	readonly #readyCallbacks = new Array<() => void>();
+
+	#pauses = 0;
+
+	readonly #idleCallbacks = new Array<() => void>();
+
+	/**
+	 * The number of events of each type, counted even without a listener.
+	 */
+	readonly #counts: Record<ThrottleEventType, number> = { queued: 0, started: 0, retried: 0, succeeded: 0, failed: 0, rejected: 0 };
+
+	/**
+	 * The durations of the recent attempts.
+	 */
+	readonly #latencies = new LatencySampler();
+
+	readonly #shouldRetry: ThrottleConfig<TResult>["shouldRetry"];
+
+	readonly #onEvent?: TaskEventListener<TArgs, TResult>;
+
+	readonly #parents?: (params: TArgs) => TaskPool<TArgs, TResult>[];
+
+	readonly #channel?: ThrottleChannel;
+
+	/**
+	 * The child pools which stopped dispatching because this pool had no free slot.
+	 */
+	readonly #blocked = new Set<TaskPool<TArgs, TResult>>();
+
+	/**
+	 * Set once the pool is migrated, resolving the pools to which requests are moved.
+	 */
+	#migrateTo?: (params: TArgs) => TaskPool<TArgs, TResult>;
+
+	readonly key: string;
+
+	/**
+	 * The options the pool was created with, with the defaults filled in.
+	 */
+	readonly config: Readonly<SetOptional<Required<ThrottleConfig<TResult>>, "shouldRetry">>;
+
+	readonly maxConcurrency: number;
+
+	readonly interval: number;
+
+	readonly rateLimits: readonly RateLimit[];
+
+	readonly maxRetry: number;
+
+	readonly retryBackoff: RetryBackoff;
+
+	readonly retryDelay: number;
+
+	readonly maxRetryDelay: number;
+
+	readonly respectRetryAfter: boolean;
+
+	readonly respectRateLimitHeaders: boolean;
+
+	readonly capacity: number;
+
+	readonly priorityAging: number;
+
+	readonly overflow: OverflowPolicy;
+
+	readonly timeout: number;
+
+	readonly deadline: number;
+
+	readonly cost: number;
+
+	constructor(init: ThrottleConfig<TResult>, task: (...args: TArgs) => Promise<TResult>, options?: TaskPoolOptions<TArgs, TResult>) {
+		const config = fillDefaults(init);
+		this.config = Object.freeze(config);
+		this.maxConcurrency = config.maxConcurrency > 0 ? config.maxConcurrency : Infinity;
+		this.interval = Math.max(0, config.interval);
+		this.rateLimits = Object.freeze(Array.isArray(config.rateLimits) ? [...config.rateLimits] : [config.rateLimits]);
+		this.maxRetry = Math.max(0, config.maxRetry);
+		this.retryBackoff = config.retryBackoff;
+		this.retryDelay = Math.max(0, config.retryDelay);
+		this.maxRetryDelay = config.maxRetryDelay > 0 ? config.maxRetryDelay : Infinity;
+		this.respectRetryAfter = config.respectRetryAfter;
+		this.respectRateLimitHeaders = config.respectRateLimitHeaders;
+		this.capacity = Math.max(0, config.capacity);
+		this.priorityAging = Math.max(0, config.priorityAging);
+		this.overflow = config.overflow;
+		this.timeout = Math.max(0, config.timeout);
+		this.deadline = Math.max(0, config.deadline);
+		this.cost = Math.max(0, config.cost);
+		this.#shouldRetry = config.shouldRetry;
+		this.#task = task;
+		this.#withSignal = options?.withSignal;
+		this.#isFailure = options?.isFailure;
+		this.#isOutage = options?.isOutage;
+		this.#peek = options?.peek;
+		this.#intercept = options?.intercept;
+		this.#clock = options?.clock ?? systemClock;
+		this.key = options?.key ?? "";
+		this.#onEvent = options?.onEvent;
+		this.#parents = options?.parents;
+		this.#channel = options?.channel;
+		// `interval` means at most `maxConcurrency` requests can start within any `interval`
+		if (config.maxConcurrency > 0 && config.interval > 0) {
+			this.#intervalLimiter = new SlidingWindowLimiter(config.maxConcurrency, config.interval);
+			this.#limiters.push(this.#intervalLimiter);
+		}
+		const adaptive = fillAdaptiveDefaults(config.adaptive);
+		if (adaptive)
+			this.#adaptive = new AdaptiveController(this.maxConcurrency, this.#intervalLimiter?.window ?? 0, adaptive);
+		const breaker = fillCircuitBreakerDefaults(config.circuitBreaker);
+		if (breaker)
+			this.#breaker = new CircuitBreaker(breaker, this.#clock);
+		for (const limit of this.rateLimits)
+			this.#limiters.push(createRateLimiter(limit));
+		if (this.respectRateLimitHeaders) {
+			this.#reportedLimiter = new ReportedRateLimiter();
+			this.#limiters.push(this.#reportedLimiter);
+		}
+		this.#channel?.listen(
+			(time, cost) => this.#acquire(time, cost),
+			() => this.#process()
+		);
+	}
+
+	/**
+	 * The concurrency currently enforced, which is lower than `maxConcurrency` while the adaptive mode backs off.
+	 */
+	get effectiveConcurrency(): number {
+		return this.#adaptive?.concurrency ?? this.maxConcurrency;
+	}
+
+	/**
+	 * The interval currently enforced, which is wider than `interval` while the adaptive mode backs off.
+	 */
+	get effectiveInterval(): number {
+		return this.#adaptive?.interval ?? this.#intervalLimiter?.window ?? 0;
+	}
+
+	/**
+	 * The state of the circuit breaker, or `undefined` if it isn't enabled.
+	 */
+	get circuit(): CircuitState | undefined {
+		return this.#breaker?.state;
+	}
+
+	/**
+	 * The number of events of each type emitted by the pool, e.g. `succeeded` is the number of resolved requests.
+	 */
+	get counts(): Readonly<Record<ThrottleEventType, number>> {
+		return { ...this.#counts };
+	}
+
+	/**
+	 * Summarizes the durations of the recent attempts.
+	 * @returns The summary, or `undefined` if no attempt has completed yet.
+	 */
+	getLatencyStats(): LatencyStats | undefined {
+		return this.#latencies.summarize();
+	}
+
+	get completed(): number {
+		return this.#started - this.#concurrency;
+	}
+
+	get active(): number {
+		return this.#concurrency;
+	}
+
+	get waiting(): number {
+		return this.#queue.size + this.#delayed.size + this.#pending.size;
+	}
+
+	/**
+	 * Whether the queue has reached its capacity.
+	 */
+	get full(): boolean {
+		return this.capacity > 0 && this.#queue.size >= this.capacity;
+	}
+
+	/**
+	 * Whether the pool is paused, i.e. doesn't start any waiting requests.
+	 */
+	get paused(): boolean {
+		return this.#pauses > 0;
+	}
+
+	/**
+	 * Records the start of a request in the rate limiters. The limiter enforcing `interval` counts each request once,
+	 * while the others consume its cost.
+	 */
+	#acquire(now: number, cost: number) {
+		for (const limiter of this.#limiters)
+			limiter.acquire(now, limiter === this.#intervalLimiter ? 1 : cost);
+	}
+
+	#pop(): QueueItem<TArgs, TResult> | undefined {
+		const item = this.#queue.shift();
+		if (item === undefined)
+			return undefined;
+		item.node = undefined;
+		this.#acquire(this.#clock.now(), this.#getCost(item));
+		++this.#started;
+		this.#admit();
+		return item;
+	}
+
+	/**
+	 * Whether a request of a child pool can occupy a slot of this pool, regardless of rate limits.
+	 */
+	get #available(): boolean {
+		return !this.paused && this.#occupied < this.effectiveConcurrency;
+	}
+
+	/**
+	 * The number of occupied slots, including those occupied in other contexts.
+	 */
+	get #occupied(): number {
+		return this.#concurrency + (this.#channel?.remoteActive ?? 0);
+	}
+
+	/**
+	 * Occupies a slot for a request of a child pool.
+	 */
+	#occupy(cost: number) {
+		this.#acquire(this.#clock.now(), cost);
+		++this.#started;
+		++this.#concurrency;
+		this.#channel?.start(cost);
+	}
+
+	/**
+	 * Releases a slot occupied via `#occupy`.
+	 */
+	#release(item: QueueItem<TArgs, TResult>, result: any) {
+		--this.#concurrency;
+		this.#channel?.finish();
+		this.#adapt(item, result);
+		this.#process();
+	}
+
+	#push(item: QueueItem<TArgs, TResult>, queuedAt = this.#clock.now()) {
+		if (this.#migrateTo)
+			return this.#transfer(item);
+		item.node = this.#queue.push(item, this.#rank(item.priority, queuedAt));
+		item.queuedAt = queuedAt;
+	}
+
+	#rank(priority: number, queuedAt: number): number {
+		// Ranking by `priority + waited / priorityAging` is equivalent to ranking by `priority - enqueued / priorityAging`,
+		// which doesn't change over time, so the heap never needs to be reordered as requests age.
+		return this.priorityAging > 0 ? priority - queuedAt / this.priorityAging : priority;
+	}
+
+	/**
+	 * Moves pending requests into the queue as long as there is room.
+	 */
+	#admit() {
+		for (const item of this.#pending) {
+			if (this.full)
+				return;
+			this.#pending.delete(item);
+			this.#push(item);
+			// Transferred requests are reported by the target pool
+			if (!this.#migrateTo)
+				this.#emit("queued", item);
+		}
+		if (!this.full && this.#pending.size === 0) {
+			const callbacks = this.#readyCallbacks.splice(0);
+			callbacks.forEach(callback => callback());
+		}
+	}
+
+	/**
+	 * Picks the waiting request to drop in favor of a new request with the given priority, according to `overflow`.
+	 */
+	#pickVictim(priority: number): QueueItem<TArgs, TResult> | undefined {
+		if (this.overflow === "drop-oldest") {
+			let oldest: QueueItem<TArgs, TResult> | undefined;
+			for (const item of this.#queue) {
+				if (oldest === undefined || item.queuedAt < oldest.queuedAt)
+					oldest = item;
+			}
+			return oldest;
+		}
+		if (this.overflow === "drop-lowest-priority") {
+			const lowest = this.#queue.last();
+			// The new request is dropped itself if it doesn't outrank any waiting request
+			if (lowest && this.#rank(priority, this.#clock.now()) > lowest.node!.rank)
+				return lowest;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Removes a waiting request from the queue to make room for a new one.
+	 */
+	#drop(item: QueueItem<TArgs, TResult>) {
+		this.#queue.remove(item.node!);
+		item.node = undefined;
+		if (!this.#settle(item))
+			return;
+		this.#emit("rejected", item);
+		item.onFailure?.(new Error("Request was dropped from the full request pool"));
+	}
+
+	/**
+	 * Makes the pool handle the abort signal and the deadline of the item.
+	 */
+	#attach(item: QueueItem<TArgs, TResult>) {
+		if (item.signal) {
+			item.onAbort = () => this.#abort(item, item.signal!.reason);
+			item.signal.addEventListener("abort", item.onAbort, { once: true });
+		}
+		if (this.deadline > 0) {
+			const remaining = this.deadline - (this.#clock.now() - item.createdAt);
+			item.deadlineTimer = this.#clock.setTimeout(() => this.#expire(item), remaining);
+		}
+	}
+
+	#detach(item: QueueItem<TArgs, TResult>) {
+		if (item.onAbort)
+			item.signal?.removeEventListener("abort", item.onAbort);
+		this.#clock.clearTimeout(item.deadlineTimer);
+		item.onAbort = item.deadlineTimer = undefined;
+	}
+
+	#transfer(item: QueueItem<TArgs, TResult>) {
+		const target = this.#migrateTo!(item.params);
+		if (target === this)
+			throw new Error("Cannot migrate requests to the same pool");
+		// The probe slot belongs to the circuit breaker of this pool
+		if (item.probe) {
+			item.probe = false;
+			this.#breaker?.cancelProbe();
+		}
+		this.#detach(item);
+		target.#attach(item);
+		target.#push(item, item.queuedAt);
+		target.#emit("queued", item);
+		target.#process();
+	}
+
+	#emit(type: ThrottleEventType, item: QueueItem<TArgs, TResult>, extra?: Partial<TaskEvent<TArgs, TResult>>) {
+		++this.#counts[type];
+		if (!this.#onEvent)
+			return;
+		const event: TaskEvent<TArgs, TResult> = {
+			type,
+			key: this.key,
+			params: item.params,
+			attempt: item.retried + 1,
+			queueTime: item.queueTime,
+			elapsed: this.#clock.now() - item.createdAt,
+			latency: item.latency,
+			...extra
+		};
+		try {
+			this.#onEvent(event);
+		}
+		catch (error) {
+			// A faulty listener must not break the state of the pool
+			queueMicrotask(() => { throw error; });
+		}
+	}
+
+	/**
+	 * Marks the item as settled and detaches it from its abort signal and deadline.
+	 * @returns `false` if the item has already been settled, e.g. by an abort.
+	 */
+	#settle(item: QueueItem<TArgs, TResult>): boolean {
+		if (item.settled)
+			return false;
+		item.settled = true;
+		this.#detach(item);
+		if (item.probe) {
+			item.probe = false;
+			this.#breaker?.cancelProbe();
+		}
+		return true;
+	}
+
+	#resolve(item: QueueItem<TArgs, TResult>, response: TResult) {
+		if (!this.#settle(item))
+			return;
+		this.#emit("succeeded", item, { result: response });
+		item.onSuccess?.(response);
+	}
+
+	#reject(item: QueueItem<TArgs, TResult>, error: any) {
+		if (!this.#settle(item))
+			return;
+		this.#emit("failed", item, { error });
+		item.onFailure?.(error);
+	}
+
+	#abort(item: QueueItem<TArgs, TResult>, reason: any) {
+		if (item.node) {
+			this.#queue.remove(item.node);
+			item.node = undefined;
+			this.#admit();
+		}
+		this.#pending.delete(item);
+		this.#cancelDelay(item);
+		this.#reject(item, reason);
+		item.controller?.abort(reason);
+		this.#checkIdle();
+	}
+
+	/**
+	 * Rejects the item as its deadline is exceeded. Unlike an abort, an active attempt releases its slot right away.
+	 */
+	#expire(item: QueueItem<TArgs, TResult>) {
+		const error = new DOMException(`The request exceeded its deadline of ${this.deadline}ms`, "TimeoutError");
+		this.#abort(item, error);
+		item.expire?.(error);
+	}
+
+	#cancelDelay(item: QueueItem<TArgs, TResult>) {
+		if (item.timer === undefined)
+			return;
+		this.#clock.clearTimeout(item.timer);
+		item.timer = undefined;
+		this.#delayed.delete(item);
+	}
+
+	#checkIdle() {
+		if (this.#idleCallbacks.length === 0 || this.#concurrency > 0 || this.waiting > 0)
+			return;
+		for (const callback of this.#idleCallbacks.splice(0))
+			callback();
+	}
+
+	#getRetryDelay(retried: number, result: any): number {
+		let delay = this.retryDelay;
+		if (this.retryBackoff !== "constant")
+			delay *= 2 ** (retried - 1);
+		if (this.retryBackoff === "exponential-jitter")
+			delay *= this.#clock.random?.() ?? Math.random();
+		if (this.respectRetryAfter && isThrottlingResponse(result))
+			delay = Math.max(delay, parseRetryAfter(result.headers.get("Retry-After"), this.#clock.date()) ?? 0);
+		return Math.min(delay, this.maxRetryDelay);
+	}
+
+	#retry(item: QueueItem<TArgs, TResult>, result: any, success: boolean) {
+		if (this.#breaker && this.#breaker.state !== "closed")
+			return this.#reject(item, this.#circuitError());
+		const delay = this.#getRetryDelay(item.retried + 1, result);
+		this.#emit("retried", item, success ? { delay, result } : { delay, error: result });
+		++item.retried;
+		if (delay <= 0)
+			return this.#push(item);
+		this.#delayed.add(item);
+		item.timer = this.#clock.setTimeout(() => {
+			item.timer = undefined;
+			this.#delayed.delete(item);
+			this.#push(item);
+			this.#process();
+		}, delay);
+	}
+
+	#handleResult_(item: QueueItem<TArgs, TResult>, result: any, success: boolean, shouldRetry: boolean | undefined | void): Promisable<void> {
+		if (item.settled)
+			return;
+		const maxRetry = item.maxRetry ?? this.maxRetry;
+		if (shouldRetry === undefined) { // Default behavior
+			if (!success) {
+				if (isTimeoutError(result) && item.retried < maxRetry)
+					this.#retry(item, result, success);
+				else
+					this.#reject(item, result);
+			}
+			else {
+				if (this.#isFailure?.(result) && item.retried < maxRetry)
+					this.#retry(item, result, success);
+				else
+					this.#resolve(item, result); // Even if failed, we consider it a success, matching the default fetch behavior
+			}
+		}
+		else {
+			if (shouldRetry && item.retried < maxRetry)
+				this.#retry(item, result, success);
+			else if (shouldRetry || !success)
+				this.#reject(item, result);
+			else
+				this.#resolve(item, result);
+		}
+	}
+
+	#handleResult(item: QueueItem<TArgs, TResult>, result: any, success: boolean): Promisable<void> {
+		if (item.settled)
+			return;
+		const handle = (retry: boolean | undefined | void) => this.#handleResult_(item, result, success, retry);
+		// Each callback gets its own copy, as the one of the request may have consumed its copy already
+		const peek = () => success && this.#peek ? this.#peek(result) : result;
+		const fallback = (retry: boolean | undefined | void): Promisable<void> => {
+			if (retry !== undefined)
+				return handle(retry);
+			const shouldRetry = this.#shouldRetry?.(peek());
+			return typeof shouldRetry === "object" ? shouldRetry.then(handle) : handle(shouldRetry);
+		};
+		const shouldRetry = item.shouldRetry?.(peek());
+		return typeof shouldRetry === "object" ? shouldRetry.then(fallback) : fallback(shouldRetry);
+	}
+
+	/**
+	 * Gets the time in milliseconds to wait before the rate limiters allow a request with the given cost to start.
+	 */
+	#getDelay(cost: number): number {
+		const now = this.#clock.now();
+		let delay = 0;
+		for (const limiter of this.#limiters)
+			delay = Math.max(delay, limiter.delay(now, limiter === this.#intervalLimiter ? 1 : cost));
+		return delay;
+	}
+
+	#getCost(item: QueueItem<TArgs, TResult>): number {
+		return item.cost ?? this.cost;
+	}
+
+	#adapt(item: QueueItem<TArgs, TResult>, result: any) {
+		const adaptive = this.#adaptive;
+		if (!adaptive?.update(item.startedAt!, this.#clock.now(), isThrottlingResponse(result), this.#concurrency))
+			return;
+		const { concurrency, interval } = adaptive;
+		if (this.#intervalLimiter) {
+			this.#intervalLimiter.resize(concurrency);
+			this.#intervalLimiter.window = interval;
+		}
+		else if (interval > 0 && Number.isFinite(concurrency)) {
+			this.#intervalLimiter = new SlidingWindowLimiter(concurrency, interval);
+			this.#limiters.push(this.#intervalLimiter);
+		}
+	}
+
+	/**
+	 * Records the budget reported by the rate limit headers of a response.
+	 */
+	#report(result: any) {
+		if (!this.#reportedLimiter || !(result?.headers instanceof Headers))
+			return;
+		const report = parseRateLimitHeaders(result.headers, this.#clock.date());
+		if (report)
+			this.#reportedLimiter.update(this.#clock.now(), report.remaining, report.reset);
+	}
+
+	#circuitError(): CircuitOpenError {
+		return new CircuitOpenError(this.key, this.#breaker!.remaining);
+	}
+
+	/**
+	 * Records the outcome of an attempt in the circuit breaker, and rejects all waiting requests if the circuit opens.
+	 * Attempts of aborted requests don't count.
+	 */
+	#track(item: QueueItem<TArgs, TResult>, result: any, success: boolean) {
+		if (!this.#breaker || item.settled)
+			return;
+		const failed = !success || this.#isOutage?.(result) === true;
+		const probe = item.probe === true;
+		item.probe = false;
+		if (this.#breaker.record(failed, probe))
+			this.clear(this.#circuitError());
+	}
+
+	#complete(item: QueueItem<TArgs, TResult>, result: any, success: boolean): Promisable<void> {
+		--this.#concurrency;
+		this.#channel?.finish();
+		item.latency = this.#clock.now() - item.startedAt!;
+		this.#latencies.record(item.latency);
+		this.#adapt(item, result);
+		this.#report(result);
+		this.#track(item, result, success);
+		const parents = item.parents;
+		item.parents = undefined;
+		parents?.forEach(parent => parent.#release(item, result));
+		return this.#handleResult(item, result, success);
+	}
+
+	/**
+	 * Calls the task for an attempt of the item, via the interceptor if any, turning a synchronous throw into a rejection.
+	 */
+	#call(item: QueueItem<TArgs, TResult>, params: TArgs): Promise<TResult> {
+		const call = (params: TArgs) => Promise.resolve(this.#task(...params));
+		try {
+			return Promise.resolve(this.#intercept ? this.#intercept(params, item.retried + 1, call) : call(params));
+		}
+		catch (error) {
+			return Promise.reject(error);
+		}
+	}
+
+	/**
+	 * Passes the item to the task. If a timeout or a deadline is configured, the attempt is raced against them,
+	 * so that a task ignoring the abort signal cannot hold a concurrency slot forever.
+	 */
+	#attempt(item: QueueItem<TArgs, TResult>): Promise<TResult> {
+		const timeout = item.timeout ?? this.timeout;
+		if (timeout <= 0 && this.deadline <= 0)
+			return this.#call(item, item.params);
+		const controller = new AbortController();
+		const attempt = this.#call(item, this.#withSignal?.(item.params, controller.signal) ?? item.params);
+		return new Promise((resolve, reject) => {
+			const timer = timeout > 0
+				? this.#clock.setTimeout(() => expire(new DOMException(`The request timed out after ${timeout}ms`, "TimeoutError")), timeout)
+				: undefined;
+			const cleanup = () => {
+				this.#clock.clearTimeout(timer);
+				if (item.controller === controller)
+					item.controller = item.expire = undefined;
+			};
+			const expire = (error: Error) => {
+				cleanup();
+				controller.abort(error);
+				reject(error);
+			};
+			item.controller = controller;
+			item.expire = expire;
+			attempt.then(resolve, reject).finally(cleanup);
+		});
+	}
+
+	#dispatch(item: QueueItem<TArgs, TResult>, parents: TaskPool<TArgs, TResult>[]) {
+		++this.#concurrency;
+		const cost = this.#getCost(item);
+		this.#channel?.start(cost);
+		for (const parent of parents)
+			parent.#occupy(cost);
+		item.parents = parents;
+		item.startedAt = this.#clock.now();
+		item.queueTime = item.startedAt - item.queuedAt;
+		this.#emit("started", item);
+		this.#attempt(item)
+			.then(
+				resp => this.#complete(item, resp, true),
+				error => this.#complete(item, error, false)
+			)
+			.catch(error => this.#handleResult(item, error, false))
+			.finally(() => this.#process());
+	}
+
+	#process() {
+		this.#checkIdle();
+		if (this.#timer === undefined && !this.paused)
+			this.#dispatchWaiting();
+		// Slots left after serving the own queue go to child pools waiting for them
+		for (const child of this.#blocked) {
+			if (!this.#available)
+				break;
+			this.#blocked.delete(child);
+			child.#process();
+		}
+	}
+
+	#dispatchWaiting() {
+		while (this.#queue.size > 0 && this.#occupied < this.effectiveConcurrency) {
+			const next = this.#queue.peek()!;
+			const parents = this.#parents?.(next.params) ?? [];
+			const cost = this.#getCost(next);
+			let delay = this.#getDelay(cost);
+			for (const parent of parents) {
+				if (!parent.#available) {
+					// Woken up by the parent once it has a free slot
+					parent.#blocked.add(this);
+					return;
+				}
+				delay = Math.max(delay, parent.#getDelay(cost));
+			}
+			if (delay > 0) {
+				this.#timer = this.#clock.setTimeout(() => {
+					this.#timer = undefined;
+					this.#process();
+				}, delay);
+				return;
+			}
+			this.#dispatch(this.#pop()!, parents);
+		}
+	}
+
+	add(
+		request: TArgs,
+		onSuccess?: (response: TResult) => void,
+		onFailure?: (error: any) => void,
+		options?: TaskOptions<TResult>
+	) {
+		const now = this.#clock.now();
+		const signal = options?.signal;
+		const item: QueueItem<TArgs, TResult> = {
+			params: request,
+			retried: Math.max(0, options?.retried ?? 0),
+			settled: false,
+			priority: options?.priority ?? 0,
+			signal,
+			maxRetry: options?.maxRetry === undefined ? undefined : Math.max(0, options.maxRetry),
+			shouldRetry: options?.shouldRetry,
+			timeout: options?.timeout === undefined ? undefined : Math.max(0, options.timeout),
+			cost: options?.cost === undefined ? undefined : Math.max(0, options.cost),
+			createdAt: now,
+			queuedAt: now,
+			queueTime: 0,
+			onSuccess,
+			onFailure
+		};
+		if (signal?.aborted)
+			return this.#reject(item, signal.reason);
+		const admitted = this.#breaker?.admit() ?? true;
+		if (admitted === false) {
+			this.#emit("rejected", item);
+			throw this.#circuitError();
+		}
+		item.probe = admitted === "probe";
+		if (this.overflow === "wait" && (this.full || this.#pending.size > 0)) {
+			this.#attach(item);
+			this.#pending.add(item);
+			return;
+		}
+		if (this.full) {
+			const victim = this.#pickVictim(item.priority);
+			if (victim === undefined) {
+				// Frees the probe slot of the circuit breaker if taken
+				this.#settle(item);
+				this.#emit("rejected", item);
+				throw new Error("Request pool is full");
+			}
+			this.#drop(victim);
+		}
+		this.#attach(item);
+		this.#push(item);
+		this.#emit("queued", item);
+		this.#process();
+	}
+
+	/**
+	 * Moves all waiting requests to the pools returned by `resolve`, which must not return this pool.
+	 * Active requests keep running in this pool, but are moved as well if they are retried afterwards.
+	 * @param resolve A function returning the pool that takes over the request with the given parameters.
+	 */
+	migrate(resolve: (params: TArgs) => TaskPool<TArgs, TResult>) {
+		this.#migrateTo = resolve;
+		if (this.#timer !== undefined) {
+			this.#clock.clearTimeout(this.#timer);
+			this.#timer = undefined;
+		}
+		let item: QueueItem<TArgs, TResult> | undefined;
+		while ((item = this.#queue.shift()) !== undefined) {
+			item.node = undefined;
+			this.#transfer(item);
+		}
+		this.#admit();
+		this.#checkIdle();
+	}
+
+	/**
+	 * Stops starting waiting requests until `resume` is called. Active requests are not affected.
+	 * Pauses are counted, so the pool resumes after `resume` has been called as many times as `pause`.
+	 */
+	pause() {
+		++this.#pauses;
+	}
+
+	/**
+	 * Resumes starting waiting requests after `pause`.
+	 */
+	resume() {
+		if (this.#pauses > 0 && --this.#pauses === 0)
+			this.#process();
+	}
+
+	/**
+	 * Waits until the pool has neither active nor waiting requests.
+	 * Note that a paused pool with waiting requests only becomes idle after being resumed or cleared.
+	 */
+	idle(): Promise<void> {
+		if (this.#concurrency === 0 && this.waiting === 0)
+			return Promise.resolve();
+		return new Promise(resolve => this.#idleCallbacks.push(resolve));
+	}
+
+	/**
+	 * Rejects all waiting requests, including those waiting for a retry. Active requests are not affected.
+	 * @param reason The reason of the rejection. Defaults to a `DOMException` named `AbortError`.
+	 * @returns The number of rejected requests.
+	 */
+	clear(reason: any = new DOMException("The request was cleared from the queue", "AbortError")): number {
+		const items = [...this.#delayed, ...this.#pending];
+		this.#pending.clear();
+		let item: QueueItem<TArgs, TResult> | undefined;
+		while ((item = this.#queue.shift()) !== undefined) {
+			item.node = undefined;
+			items.push(item);
+		}
+		for (const item of items) {
+			this.#cancelDelay(item);
+			this.#reject(item, reason);
+		}
+		this.#admit();
+		this.#checkIdle();
+		return items.length;
+	}
+
+	/**
+	 * Waits until the queue has room for a new request, i.e. it's not `full` and no request is waiting for room.
+	 * Useful for producers to apply backpressure instead of overflowing the queue.
+	 */
+	ready(): Promise<void> {
+		if (!this.full && this.#pending.size === 0)
+			return Promise.resolve();
+		return new Promise(resolve => this.#readyCallbacks.push(resolve));
+	}
+}
\ No newline at end of file
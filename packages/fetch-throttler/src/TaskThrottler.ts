@@ -0,0 +1,191 @@
+import type { SetOptional } from "type-fest";
+import { PoolGroup } from "./PoolGroup";
+import { TaskPool, type TaskOptions } from "./TaskPool";
+import type { Clock, TaskEvent, ThrottleConfig, ThrottleStats } from "./types";
+import { createCallable, fillDefaults } from "./utils";
+
+export interface TaskThrottlerOptions<TArgs extends unknown[]> {
+	/**
+	 * Gets the key of the pool throttling a call from its arguments, e.g. the name of a database or the URL of a socket.
+	 * Calls with different keys are throttled independently, each key with the config given via `configure`
+	 * or the default config.
+	 * @default All calls share the pool with an empty key.
+	 */
+	key?(...args: TArgs): string;
+
+	/**
+	 * The source of time and timers of the pools.
+	 * @default The system clock
+	 */
+	clock?: Clock;
+}
+
+/**
+ * Throttles the calls of any async function, e.g. IndexedDB writes, WebSocket sends or calls of an SDK,
+ * with the same options as throttled fetch requests. Calls are distributed to `TaskPool`s by their keys.
+ * @template TArgs The parameters of the task.
+ * @template TResult The result the task resolves with.
+ */
+export class TaskThrottler<TArgs extends unknown[], TResult> extends PoolGroup<TaskPool<TArgs, TResult>, TaskEvent<TArgs, TResult>> {
+	private readonly _pools = new Map<string, TaskPool<TArgs, TResult>>();
+
+	/**
+	 * The configs of the keys given via `configure`.
+	 */
+	private readonly _configs = new Map<string, ThrottleConfig<TResult>>();
+
+	/**
+	 * Pools replaced via `configure`, which still have active or waiting calls.
+	 */
+	private readonly _retiredPools = new Set<TaskPool<TArgs, TResult>>();
+
+	private readonly _key?: (...args: TArgs) => string;
+
+	private readonly _clock?: Clock;
+
+	/**
+	 * The throttled function.
+	 */
+	readonly task: (...args: TArgs) => Promise<TResult>;
+
+	/**
+	 * The default throttling configuration applied to the pools of keys without a config of their own.
+	 */
+	readonly config: Readonly<SetOptional<Required<ThrottleConfig<TResult>>, "shouldRetry">>;
+
+	/**
+	 * @param task The function to throttle.
+	 * @param config The default throttling configuration.
+	 * @throws {TypeError} If the task is not a function.
+	 */
+	constructor(task: (...args: TArgs) => Promise<TResult>, config?: ThrottleConfig<TResult>, options?: TaskThrottlerOptions<TArgs>) {
+		if (typeof task !== "function")
+			throw new TypeError(`Invalid task: ${task}`);
+		super();
+		this.task = task;
+		this.config = Object.freeze(fillDefaults(config ?? {}));
+		this._key = options?.key;
+		this._clock = options?.clock;
+	}
+
+	private createPool(key: string): TaskPool<TArgs, TResult> {
+		const pool = new TaskPool(this._configs.get(key) ?? this.config, this.task, {
+			key,
+			onEvent: e => this.emit(e),
+			clock: this._clock
+		});
+		if (this._paused)
+			pool.pause();
+		return pool;
+	}
+
+	private getPool(key: string): TaskPool<TArgs, TResult> {
+		let pool = this._pools.get(key);
+		if (pool === undefined) {
+			pool = this.createPool(key);
+			this._pools.set(key, pool);
+		}
+		return pool;
+	}
+
+	protected *getPools(): Generator<TaskPool<TArgs, TResult>> {
+		yield* this._pools.values();
+		yield* this._retiredPools;
+	}
+
+	/**
+	 * Gets the key of the pool throttling a call with the given arguments.
+	 */
+	getKey(...args: TArgs): string {
+		return this._key?.(...args) ?? "";
+	}
+
+	/**
+	 * Calls the task once the pool of the key of the call allows it.
+	 * @param args The arguments for the task.
+	 * @returns A promise that resolves with the result of the task, or rejects with its error.
+	 */
+	invoke(...args: TArgs): Promise<TResult> {
+		return this.schedule(args);
+	}
+
+	/**
+	 * Calls the task with per-call throttling options, overriding the options of the pool for this call.
+	 * Aborting the given signal removes a waiting call from the queue and rejects the returned promise with
+	 * the abort reason. The task only receives the signal if it's passed among the arguments.
+	 * @param args The arguments for the task.
+	 * @param options The throttling options for this call.
+	 * @returns A promise that resolves with the result of the task, or rejects with its error.
+	 */
+	schedule(args: TArgs, options?: TaskOptions<TResult>): Promise<TResult> {
+		const pool = this.getPool(this.getKey(...args));
+		return new Promise((resolve, reject) => pool.add(args, resolve, reject, options));
+	}
+
+	/**
+	 * Sets the throttling configuration of a key, replacing the default config for it.
+	 * If the key already has a pool, its waiting calls move to a new pool with the given config,
+	 * while its active calls finish in the old pool.
+	 * @param key The key of the pool.
+	 * @param config The throttling configuration of the key.
+	 */
+	configure(key: string, config: ThrottleConfig<TResult>): void {
+		this._configs.set(key, config);
+		const old = this._pools.get(key);
+		if (old === undefined)
+			return;
+		const pool = this.createPool(key);
+		this._pools.set(key, pool);
+		old.migrate(() => pool);
+		if (old.active === 0 && old.waiting === 0)
+			return;
+		this._retiredPools.add(old);
+		void old.idle().then(() => this._retiredPools.delete(old));
+	}
+
+	/**
+	 * Gets the current statistics of the calls with the given key.
+	 * @param key The key of the pool.
+	 * @returns An object containing the counts of completed, active, and waiting calls,
+	 * and the state of the circuit breaker if the pool has one.
+	 */
+	stats(key: string = ""): ThrottleStats {
+		const pool = this._pools.get(key);
+		const stats: ThrottleStats = {
+			completed: pool?.completed ?? 0,
+			active: pool?.active ?? 0,
+			waiting: pool?.waiting ?? 0
+		};
+		if (pool?.circuit !== undefined)
+			stats.circuit = pool.circuit;
+		return stats;
+	}
+
+	/**
+	 * Waits until the pool of the given key has room for a new call, so that producers can apply backpressure
+	 * instead of overflowing the pool.
+	 * @param key The key of the pool.
+	 */
+	ready(key: string = ""): Promise<void> {
+		return this.getPool(key).ready();
+	}
+}
+
+export type TaskThrottlerInst<TArgs extends unknown[], TResult> = ((...args: TArgs) => Promise<TResult>) & TaskThrottler<TArgs, TResult>;
+
+/**
+ * Creates a throttled version of an async function.
+ * @template TArgs The parameters of the task.
+ * @template TResult The result the task resolves with.
+ * @param task The function to throttle.
+ * @param config The default throttling configuration.
+ * @returns A function that behaves like the task but is throttled, and also exposes the `TaskThrottler` instance methods.
+ * @throws {TypeError} If the task is not a function.
+ */
+export function createTaskThrottler<TArgs extends unknown[], TResult>(
+	task: (...args: TArgs) => Promise<TResult>,
+	config?: ThrottleConfig<TResult>,
+	options?: TaskThrottlerOptions<NoInfer<TArgs>>
+): TaskThrottlerInst<TArgs, TResult> {
+	return createCallable(new TaskThrottler(task, config, options));
+}
\ No newline at end of file
@@ -1,27 +1,119 @@
 import type { SetOptional } from "type-fest";
-import { RequestPool } from "./RequestPool";
+import { PoolGroup } from "./PoolGroup";
+import { RequestCoalescer } from "./RequestCoalescer";
+import { RequestPool, type RequestOptions } from "./RequestPool";
 import type {
-	Fetch, ExtendedFetch, FetchParams, FetchReturn, OnlyFetch,
-	ThrottleConfig, DefaultThrottleConfig, ThrottleScope, CustomThrottleConfig, SpecifiedThrottleConfig
+	Fetch, ExtendedFetch, FetchParams, FetchReturn, ThrottledFetchFunction, ThrottledRequestInit,
+	ThrottleConfig, DefaultThrottleConfig, ThrottleScope, CustomThrottleConfig, SpecifiedThrottleConfig,
+	ThrottleEvent, ThrottleRule, MigrationPolicy, RuleThrottleConfig,
+	ThrottleChannel, ThrottleCoordinator, ThrottleRuleDefinition, RequestDescriptor, ThrottleStats, PoolSnapshot, PoolType, Clock,
+	ThrottleMiddleware, MiddlewareContext
 } from "./types";
-import { fillDefaults } from "./utils";
+import { bufferBody, compilePattern, createCallable, createRequestFilter, fillDefaults, getOneShotBody, parseRuleDefinition } from "./utils";
+
+/**
+ * The serializable matching criteria of a rule.
+ */
+type RuleMatcher = Pick<RuleThrottleConfig, "methods" | "headers"> & (
+	| { scope: "domain"; domains: string[] }
+	| { scope: "path"; url: string[]; matchSubpath: boolean }
+	| { regex: string; flags: string }
+	| { pattern: string }
+);
+
+/**
+ * The pool of a rule, along with the criteria of the rule other than the URL.
+ */
+interface PoolEntry<T extends ExtendedFetch<any, any, any>> {
+	pool: RequestPool<T>;
+
+	/**
+	 * Checks the methods and headers of a request, or `undefined` if the rule accepts any request matching its URL.
+	 */
+	readonly filter?: (request: RequestDescriptor) => boolean;
+}
+
+interface RuleEntry {
+	/**
+	 * Gets the definition of the rule, or `undefined` if it has a custom matcher.
+	 */
+	define(): ThrottleRuleDefinition | undefined;
+
+	/**
+	 * Stops matching requests with the rule, like `ThrottleRule.remove` does.
+	 * @returns A function retiring the pools of the rule, which is deferred so that waiting requests can migrate
+	 * to rules added in the meantime, and a function attaching the rule again at its previous position instead.
+	 */
+	detach(policy: MigrationPolicy): { retire(): void; restore(): void };
+}
 
 /**
  * Manages throttled fetch requests based on configured rules.
  * It allows setting global, domain-specific, path-specific, regex-based, or custom throttling configurations.
  * @template T The type of the underlying fetch function. Defaults to the type of global `fetch`.
  */
-export class ThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch> {
+export class ThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch> extends PoolGroup<RequestPool<T>, ThrottleEvent<T>> {
 	private readonly _defaultPools = new Map<string, RequestPool<T>>();
 
-	private readonly _urlPools = new Map<string, RequestPool<T>>();
+	/**
+	 * The pools of URL-based rules by their keys, in the order the rules were configured.
+	 */
+	private readonly _urlPools = new Map<string, PoolEntry<T>[]>();
 
-	private readonly _regexPools = new Array<[regex: RegExp, pool: RequestPool<T>]>();
+	private readonly _regexPools = new Array<[regex: RegExp, entry: PoolEntry<T>]>();
 
-	private readonly _customPools = new Array<[match: CustomThrottleConfig["match"], pool: RequestPool<T>]>();
+	private readonly _customPools = new Array<[match: CustomThrottleConfig["match"], entry: PoolEntry<T>]>();
 
 	private _hasSubpathConfigs = false;
 
+	/**
+	 * Pools of rules nested in the rules they would match otherwise.
+	 */
+	private readonly _nestedPools = new WeakSet<RequestPool<T>>();
+
+	/**
+	 * The pool enforcing `globalLimit` on all requests.
+	 */
+	private readonly _globalPool?: RequestPool<T>;
+
+	private readonly _coalescer?: RequestCoalescer<T>;
+
+	private readonly _coordinator?: ThrottleCoordinator;
+
+	private readonly _keyBy?: DefaultThrottleConfig["keyBy"];
+
+	private readonly _clock?: Clock;
+
+	/**
+	 * The chain of middleware, in the order the requests pass through it.
+	 */
+	private readonly _middleware: ThrottleMiddleware<T>[];
+
+	/**
+	 * The channels through which pools share their state with other contexts.
+	 */
+	private readonly _channels = new WeakMap<RequestPool<T>, ThrottleChannel>();
+
+	/**
+	 * Pools detached from their rules, which still have active or waiting requests.
+	 */
+	private readonly _retiredPools = new Set<RequestPool<T>>();
+
+	/**
+	 * The rules the pools belong to, along with the types of the rules.
+	 */
+	private readonly _owners = new WeakMap<RequestPool<T>, [rule: ThrottleRule, type: PoolType]>();
+
+	/**
+	 * The active rules in the order they were configured.
+	 */
+	private readonly _rules = new Map<ThrottleRule, RuleEntry>();
+
+	/**
+	 * The rules configured by the last call to `loadRules`.
+	 */
+	private _loadedRules = new Array<ThrottleRule>();
+
 	/**
 	 * The underlying fetch function used to make requests.
 	 */
@@ -37,7 +129,7 @@ export class ThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch> {
 	 */
 	readonly config: Readonly<SetOptional<Required<ThrottleConfig>, "shouldRetry">>;
 
-	constructor(config?: DefaultThrottleConfig, adapter?: T) {
+	constructor(config?: DefaultThrottleConfig<T>, adapter?: T) {
 		if (typeof adapter !== "function") {
 			if (adapter !== undefined)
 				throw new TypeError(`Invalid adapter: ${adapter}`);
@@ -48,10 +140,234 @@ export class ThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch> {
 				throw new Error(message);
 			}
 		}
-		const { scope = "global", ...rest } = config ?? {};
+		super();
+		const { scope = "global", globalLimit, coalesce = false, coordinator, keyBy, clock, middleware = [], ...rest } = config ?? {};
 		this.adapter = adapter ?? globalThis.fetch.bind(globalThis) as T;
 		this.scope = scope;
 		this.config = Object.freeze(fillDefaults(rest));
+		this._coordinator = coordinator;
+		this._keyBy = keyBy;
+		this._clock = clock;
+		this._middleware = [...middleware];
+		if (globalLimit)
+			this._globalPool = this.createPool(globalLimit, "*");
+		if (coalesce)
+			this._coalescer = new RequestCoalescer(coalesce === true ? {} : coalesce);
+	}
+
+	private createPool(config: ThrottleConfig, key: string): RequestPool<T> {
+		const channel = this._coordinator?.join(key);
+		const pool: RequestPool<T> = new RequestPool(config, this.adapter, {
+			key,
+			onEvent: e => this.emit(e),
+			parents: params => this.getParents(pool, params),
+			channel,
+			clock: this._clock,
+			intercept: (params, attempt, call) => this.intercept(pool, params, attempt, call)
+		});
+		if (channel)
+			this._channels.set(pool, channel);
+		if ((config as RuleThrottleConfig).nested === true)
+			this._nestedPools.add(pool);
+		if (this._paused)
+			pool.pause();
+		return pool;
+	}
+
+	/**
+	 * Gets the pools enclosing the given pool for a request, i.e. the pools matched after it as long as
+	 * the matched pools are nested, and the global pool.
+	 */
+	private getParents(pool: RequestPool<T>, params: FetchParams<T>): RequestPool<T>[] {
+		const parents = new Array<RequestPool<T>>();
+		if (this._nestedPools.has(pool)) {
+			let found = false;
+			for (const match of this.matchPools(this.describe(params))) {
+				if (!found)
+					found = match === pool;
+				else if (match !== pool && !parents.includes(match)) {
+					parents.push(match);
+					if (!this._nestedPools.has(match))
+						break;
+				}
+			}
+		}
+		if (this._globalPool && pool !== this._globalPool)
+			parents.push(this._globalPool);
+		return parents;
+	}
+
+	/**
+	 * Passes an attempt through the `onAttempt` and `onResponse` hooks of the middleware.
+	 */
+	private intercept(
+		pool: RequestPool<T>,
+		params: FetchParams<T>,
+		attempt: number,
+		call: (params: FetchParams<T>) => Promise<FetchReturn<T>>
+	): Promise<FetchReturn<T>> {
+		// Middleware added during the attempt only applies to the next one
+		const middleware = this._middleware.slice();
+		if (!middleware.some(m => m.onAttempt || m.onResponse))
+			return call(params);
+		let snapshot: PoolSnapshot | undefined;
+		const takeSnapshot = () => snapshot ??= this.snapshotPool(pool);
+		const context: MiddlewareContext = {
+			attempt,
+			key: pool.key,
+			get pool() {
+				return takeSnapshot();
+			}
+		};
+		return this.pipe(middleware, params, context, call);
+	}
+
+	private async pipe(
+		middleware: ThrottleMiddleware<T>[],
+		params: FetchParams<T>,
+		context: MiddlewareContext,
+		call: (params: FetchParams<T>) => Promise<FetchReturn<T>>
+	): Promise<FetchReturn<T>> {
+		for (const m of middleware)
+			params = await m.onAttempt?.(params, context) ?? params;
+		let response = await call(params);
+		for (let i = middleware.length - 1; i >= 0; i--)
+			response = await middleware[i].onResponse?.(response, context) ?? response;
+		return response;
+	}
+
+	/**
+	 * Passes the parameters of a request through the `onRequest` hooks of the middleware.
+	 */
+	private async rewrite(params: FetchParams<T>): Promise<FetchParams<T>> {
+		for (const m of this._middleware.slice())
+			params = await m.onRequest?.(params) ?? params;
+		return params;
+	}
+
+	protected *getPools(): Generator<RequestPool<T>> {
+		yield* this._defaultPools.values();
+		yield* new Set(Array.from(this._urlPools.values()).flatMap(entries => entries.map(entry => entry.pool)));
+		for (const [, entry] of this._regexPools)
+			yield entry.pool;
+		for (const [, entry] of this._customPools)
+			yield entry.pool;
+		yield* this._retiredPools;
+		if (this._globalPool)
+			yield this._globalPool;
+	}
+
+	/**
+	 * Creates the handle of a rule.
+	 * @param config The options the rule was configured with.
+	 * @param matcher The matching criteria of the rule, or `undefined` if they can't be serialized.
+	 * @param replace Puts the given pool in place of the current pool of the rule.
+	 * @param unlink Stops matching requests with the rule, and returns a function undoing it.
+	 */
+	private createRule(
+		name: string,
+		config: ThrottleConfig,
+		matcher: RuleMatcher | undefined,
+		pool: RequestPool<T>,
+		replace: (pool: RequestPool<T>) => void,
+		unlink: () => () => void
+	): ThrottleRule {
+		let current = pool;
+		let removed = false;
+		let paused = false;
+		// The options shaping how the rule matches and nests, which updates keep
+		const { name: customName, nested, methods, headers } = config as RuleThrottleConfig;
+		const structure: Pick<RuleThrottleConfig, "name" | "nested" | "methods" | "headers"> = {};
+		if (customName !== undefined)
+			structure.name = customName;
+		if (nested !== undefined)
+			structure.nested = nested;
+		if (methods !== undefined)
+			structure.methods = methods;
+		if (headers !== undefined)
+			structure.headers = headers;
+		// The current pool and the retired ones still having requests
+		const pools = new Set([pool]);
+		const retire = (pool: RequestPool<T>, policy: MigrationPolicy) => {
+			if (policy === "migrate")
+				pool.migrate(params => this.getPool(this.describe(params), true));
+			else if (policy !== "drain")
+				throw new TypeError(`Invalid migration policy: ${policy}`);
+			this._retiredPools.add(pool);
+			pool.idle().then(() => {
+				this._retiredPools.delete(pool);
+				pools.delete(pool);
+				this._channels.get(pool)?.close();
+			});
+		};
+		const detach = (policy: MigrationPolicy) => {
+			removed = true;
+			this._rules.delete(rule);
+			const relink = unlink();
+			return {
+				retire: () => retire(current, policy),
+				restore: () => {
+					removed = false;
+					this._rules.set(rule, entry);
+					relink();
+				}
+			};
+		};
+		const rule: ThrottleRule = {
+			name,
+			get removed() {
+				return removed;
+			},
+			get paused() {
+				return paused;
+			},
+			update: (options, policy = "migrate") => {
+				if (removed)
+					throw new Error(`Rule ${name} has been removed`);
+				const config: RuleThrottleConfig = { ...options, ...structure };
+				const previous = current;
+				current = this.createPool(config, name);
+				this._owners.set(current, owner);
+				entry.define = () => define(config);
+				if (paused)
+					current.pause();
+				pools.add(current);
+				replace(current);
+				retire(previous, policy);
+			},
+			remove: (policy = "migrate") => {
+				if (!removed)
+					detach(policy).retire();
+			},
+			pause: () => {
+				if (paused)
+					return;
+				paused = true;
+				pools.forEach(pool => pool.pause());
+			},
+			resume: () => {
+				if (!paused)
+					return;
+				paused = false;
+				pools.forEach(pool => pool.resume());
+			},
+			idle: () => Promise.all(Array.from(pools, pool => pool.idle())).then(() => { }),
+			clear: reason => Array.from(pools).reduce((count, pool) => count + pool.clear(reason), 0)
+		};
+		const define = (config: ThrottleConfig): ThrottleRuleDefinition | undefined => {
+			if (matcher === undefined)
+				return undefined;
+			const { shouldRetry, ...options } = config;
+			return { ...options, name, ...matcher } as ThrottleRuleDefinition;
+		};
+		const entry: RuleEntry = { define: () => define(config), detach };
+		this._rules.set(rule, entry);
+		let type: PoolType = "custom";
+		if (matcher !== undefined)
+			type = "scope" in matcher ? matcher.scope : "regex" in matcher ? "regex" : "pattern";
+		const owner: [ThrottleRule, PoolType] = [rule, type];
+		this._owners.set(pool, owner);
+		return rule;
 	}
 
 	private getKey(url: URL, scope?: ThrottleScope): string {
@@ -79,37 +395,56 @@ export class ThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch> {
 		return keys.reverse();
 	}
 
-	private getPool(url: URL, create: true): RequestPool<T>;
-	private getPool(url: URL, create?: false): RequestPool<T> | undefined;
-	private getPool(url: URL, create: boolean = false) {
+	/**
+	 * Yields the pools of the URL-based rules with the given key accepting the request, the last configured first.
+	 */
+	private *matchUrlPools(key: string, request: RequestDescriptor): Generator<RequestPool<T>> {
+		const entries = this._urlPools.get(key);
+		if (entries === undefined)
+			return;
+		for (let i = entries.length - 1; i >= 0; i--) {
+			const entry = entries[i];
+			if (entry.filter?.(request) !== false)
+				yield entry.pool;
+		}
+	}
+
+	/**
+	 * Yields the pools matching the request in the order of precedence, ending with the default pool.
+	 * @param create Whether to create the default pool if it doesn't exist yet.
+	 */
+	private *matchPools(request: RequestDescriptor, create: boolean = true): Generator<RequestPool<T>> {
+		const { url } = request;
 		for (let i = this._customPools.length - 1; i >= 0; i--) {
-			const item = this._customPools[i];
-			if (item[0](url))
-				return item[1];
+			const [match, entry] = this._customPools[i];
+			if (entry.filter?.(request) !== false && match(url, request))
+				yield entry.pool;
 		}
 		for (let i = this._regexPools.length - 1; i >= 0; i--) {
-			const item = this._regexPools[i];
-			if (item[0].test(url.href))
-				return item[1];
+			const [regex, entry] = this._regexPools[i];
+			if (entry.filter?.(request) !== false && regex.test(url.href))
+				yield entry.pool;
 		}
-		let pool = this._urlPools.get(this.getKey(url, "path"));
-		if (this._hasSubpathConfigs && pool === undefined) {
-			for (const key of this.getSubpathKeys(url)) {
-				pool = this._urlPools.get(key);
-				if (pool !== undefined)
-					break;
-			}
+		yield* this.matchUrlPools(this.getKey(url, "path"), request);
+		if (this._hasSubpathConfigs) {
+			for (const key of this.getSubpathKeys(url))
+				yield* this.matchUrlPools(key, request);
 		}
-		pool ??= this._urlPools.get(this.getKey(url, "domain"));
-		if (pool === undefined) {
-			const key = this.getKey(url);
-			pool = this._defaultPools.get(key);
-			if (create === true && pool === undefined) {
-				pool = new RequestPool(this.config, this.adapter);
-				this._defaultPools.set(key, pool);
-			}
+		yield* this.matchUrlPools(this.getKey(url, "domain"), request);
+		const key = this._keyBy?.(request) ?? this.getKey(url);
+		let pool = this._defaultPools.get(key);
+		if (create && pool === undefined) {
+			pool = this.createPool(this.config, key);
+			this._defaultPools.set(key, pool);
 		}
-		return pool;
+		if (pool !== undefined)
+			yield pool;
+	}
+
+	private getPool(request: RequestDescriptor, create: true): RequestPool<T>;
+	private getPool(request: RequestDescriptor, create?: false): RequestPool<T> | undefined;
+	private getPool(request: RequestDescriptor, create: boolean = false) {
+		return this.matchPools(request, create).next().value;
 	}
 
 	private parseUrl(args: FetchParams<T>): URL {
@@ -134,41 +469,179 @@ export class ThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch> {
 		return url;
 	}
 
+	/**
+	 * Describes the request for matching rules. The headers are only parsed when accessed.
+	 * @throws {TypeError} If the input URL is invalid.
+	 */
+	private describe(args: FetchParams<T>): RequestDescriptor {
+		const url = this.parseUrl(args);
+		const [input, init] = args as [string | URL | Request, RequestInit?, ...unknown[]];
+		const request = typeof input == "object" && !(input instanceof URL) ? input : undefined;
+		let headers: Headers | undefined;
+		return {
+			url,
+			method: (init?.method ?? request?.method ?? "GET").toUpperCase(),
+			get headers() {
+				return headers ??= new Headers(init?.headers ?? request?.headers);
+			},
+			params: args
+		};
+	}
+
+	private parseOptions(args: FetchParams<T>): RequestOptions {
+		const [input, init] = args as [string | URL | Request, ThrottledRequestInit?, ...unknown[]];
+		const signal = init?.signal ?? (typeof input == "object" && "signal" in input ? input.signal : undefined);
+		return {
+			signal: signal ?? undefined,
+			priority: init?.throttle?.priority,
+			retried: init?.throttle?.retried,
+			maxRetry: init?.throttle?.maxRetry,
+			shouldRetry: init?.throttle?.shouldRetry,
+			timeout: init?.throttle?.timeout,
+			cost: init?.throttle?.cost
+		};
+	}
+
+	private enqueue(request: RequestDescriptor, args: FetchParams<T>): Promise<FetchReturn<T>> {
+		const pool = this.getPool(request, true);
+		const options = this.parseOptions(args);
+		const body = getOneShotBody(args);
+		if (body === undefined)
+			return new Promise((resolve, reject) => pool.add(args, resolve, reject, options));
+		// Retries would resend a consumed body, so it's buffered first, or the request is never retried.
+		// The rules may change while buffering, so the pool is resolved again afterwards.
+		return bufferBody(args, body, pool.maxReplayBodySize).then(([params, replayable]) => new Promise((resolve, reject) =>
+			this.getPool(request, true).add(params, resolve, reject, replayable ? options : { ...options, maxRetry: 0 })
+		));
+	}
+
 	/**
 	 * Invokes the throttled fetch request.
 	 * This method queues the request and executes it according to the matching throttling rules.
+	 * If the request carries an `AbortSignal` (via `init.signal` or the `Request` object), aborting it
+	 * removes the request from the queue and rejects the returned promise with the abort reason.
+	 * Per-request throttling options can be passed via the `throttle` field of the init, overriding the options
+	 * of the matching rule for this request, or bypassing throttling altogether.
+	 * If `coalesce` is enabled, the request may share a single underlying request with identical ones.
+	 * The request passes through the middleware, if any, before being queued and on each attempt.
 	 * @param args The parameters for the fetch call (URL or Request object, and optional options).
 	 * @returns A promise that resolves with the fetch response or rejects on error.
-	 * @throws {TypeError} If the input URL is invalid.
+	 * @throws {TypeError} If the input URL is invalid. The returned promise is rejected instead if any middleware
+	 * rewrites requests before they are queued.
 	 */
 	invoke(...args: FetchParams<T>): Promise<FetchReturn<T>> {
-		const pool = this.getPool(this.parseUrl(args), true);
-		return new Promise((resolve, reject) => pool.add(args, resolve, reject));
+		if (this._middleware.some(m => m.onRequest))
+			return this.rewrite(args).then(args => this.dispatch(args));
+		return this.dispatch(args);
+	}
+
+	private dispatch(args: FetchParams<T>): Promise<FetchReturn<T>> {
+		if ((args[1] as ThrottledRequestInit | undefined)?.throttle?.bypass === true)
+			return this.adapter(...args as unknown as FetchParams) as Promise<FetchReturn<T>>;
+		const request = this.describe(args);
+		const key = this._coalescer?.getKey(request);
+		if (key === undefined)
+			return this.enqueue(request, args);
+		const { signal } = this.parseOptions(args);
+		return this._coalescer!.run(key, args, signal, args => this.enqueue(request, args));
 	}
 
 	/**
 	 * Gets the current statistics of requests for the specified URL.
 	 * @param args The parameters for the fetch call (URL or Request object, and optional options).
-	 * @returns An object containing the counts of completed, active, and waiting requests.
+	 * @returns An object containing the counts of completed, active, and waiting requests,
+	 * and the state of the circuit breaker if the pool has one.
 	 * @throws {TypeError} If the input URL is invalid.
 	 */
-	stats(...args: FetchParams<T>): Record<"completed" | "active" | "waiting", number> {
-		const pool = this.getPool(this.parseUrl(args));
-		return {
+	stats(...args: FetchParams<T>): ThrottleStats {
+		const pool = this.getPool(this.describe(args));
+		const stats: ThrottleStats = {
 			completed: pool?.completed ?? 0,
 			active: pool?.active ?? 0,
 			waiting: pool?.waiting ?? 0
 		};
+		if (pool?.circuit !== undefined)
+			stats.circuit = pool.circuit;
+		return stats;
 	}
 
 	/**
-	 * Configures specific throttling rules for different scopes (Domain, Path, Regex, Custom).
+	 * Takes a snapshot of the state and metrics of all pools, including the default pools, the pools of rules
+	 * and the pools of updated or removed rules still having requests, e.g. to render a diagnostics panel.
+	 * @returns The snapshots of the pools, with the default pools first and the global pool last.
+	 */
+	snapshot(): PoolSnapshot[] {
+		return Array.from(this.getPools(), pool => this.snapshotPool(pool));
+	}
+
+	private snapshotPool(pool: RequestPool<T>): PoolSnapshot {
+		const [rule, type] = this._owners.get(pool) ?? [undefined, pool === this._globalPool ? "global" : "default"];
+		const { succeeded, failed, retried, rejected } = pool.counts;
+		const snapshot: PoolSnapshot = {
+			key: pool.key,
+			type,
+			retired: this._retiredPools.has(pool),
+			config: pool.config,
+			completed: pool.completed,
+			active: pool.active,
+			waiting: pool.waiting,
+			effectiveConcurrency: pool.effectiveConcurrency,
+			effectiveInterval: pool.effectiveInterval,
+			succeeded,
+			failed,
+			retried,
+			rejected
+		};
+		if (rule !== undefined)
+			snapshot.rule = rule;
+		if (pool.circuit !== undefined)
+			snapshot.circuit = pool.circuit;
+		const latency = pool.getLatencyStats();
+		if (latency !== undefined)
+			snapshot.latency = latency;
+		return snapshot;
+	}
+
+	/**
+	 * Waits until the pool for the specified URL has room for a new request, so that producers can apply backpressure
+	 * instead of overflowing the pool.
+	 * @param args The parameters for the fetch call (URL or Request object, and optional options).
+	 * @throws {TypeError} If the input URL is invalid.
+	 */
+	ready(...args: FetchParams<T>): Promise<void> {
+		return this.getPool(this.describe(args), true).ready();
+	}
+
+	/**
+	 * Appends a middleware to the chain through which requests pass. It applies to requests added afterwards,
+	 * and to the later attempts of the requests already added.
+	 * @param middleware The hooks of the middleware.
+	 * @returns A function that removes the middleware from the chain.
+	 */
+	use(middleware: ThrottleMiddleware<T>): () => void {
+		this._middleware.push(middleware);
+		return () => {
+			const index = this._middleware.indexOf(middleware);
+			if (index >= 0)
+				this._middleware.splice(index, 1);
+		};
+	}
+
+	/**
+	 * Configures specific throttling rules for different scopes (Domain, Path, Regex, Pattern, Custom).
 	 * New requests matching these rules will use a dedicated RequestPool with the specified configuration.
 	 * @param config The specific throttling configuration to apply.
+	 * @returns A handle to update or remove the rule later.
 	 * @throws {TypeError} If the configuration object is invalid or contains an invalid scope or URL.
 	 * @throws {Error} If a pool for the specified URL scope already exists.
 	 */
-	configure(config: SpecifiedThrottleConfig): void {
+	configure(config: SpecifiedThrottleConfig): ThrottleRule {
+		const filter = createRequestFilter(config);
+		const conditions: Pick<RuleThrottleConfig, "methods" | "headers"> = {};
+		if (config.methods !== undefined)
+			conditions.methods = config.methods;
+		if (config.headers !== undefined)
+			conditions.headers = config.headers;
 		if ("scope" in config) {
 			const { url, scope, ...conf } = config;
 			if (scope !== "domain" && scope !== "path")
@@ -182,6 +655,8 @@ export class ThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch> {
 				return url;
 			});
 			let keys: string[];
+			let name: string;
+			let matcher: RuleMatcher;
 			if (scope === "domain") {
 				const domains = Array.isArray(config.domains) ? config.domains : config.domains ? [config.domains] : [];
 				if (!urls.length && !domains.length)
@@ -189,38 +664,157 @@ export class ThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch> {
 				// Note: embedded `getKey` logic, needs to be updated if `getKey` changes
 				const set = new Set(domains.concat(urls.map(u => u.host)));
 				keys = Array.from(set);
+				name = keys.join(", ");
+				matcher = { ...conditions, scope, domains: keys };
 			}
 			else {
 				if (!urls.length)
 					throw new TypeError("Path scope requires url");
 				const set = new Set(urls.map(u => this.getKey(u, "path")));
 				keys = Array.from(set);
+				name = keys.join(", ");
+				matcher = { ...conditions, scope, url: [...keys], matchSubpath: config.matchSubpath === true };
 				if (config.matchSubpath === true) {
 					this._hasSubpathConfigs = true;
 					keys.push(...keys.map(k => k + "/"));
 				}
 			}
-			const pool = new RequestPool(conf, this.adapter);
+			// Rules with methods or headers may share URL scopes, as they can fall through to each other
 			for (const key of keys) {
-				if (this._urlPools.has(key))
+				if (filter === undefined && this._urlPools.get(key)?.some(entry => entry.filter === undefined))
 					throw new Error(`Pool for ${key} already exists`);
-				this._urlPools.set(key, pool);
 			}
+			name = config.name ?? name;
+			const entry: PoolEntry<T> = { pool: this.createPool(conf, name), filter };
+			for (const key of keys) {
+				const entries = this._urlPools.get(key);
+				if (entries)
+					entries.push(entry);
+				else
+					this._urlPools.set(key, [entry]);
+			}
+			return this.createRule(name, conf, matcher, entry.pool, pool => entry.pool = pool, () => {
+				const indices = keys.map(key => {
+					const entries = this._urlPools.get(key)!;
+					const index = entries.indexOf(entry);
+					entries.splice(index, 1);
+					if (entries.length === 0)
+						this._urlPools.delete(key);
+					return index;
+				});
+				return () => keys.forEach((key, i) => {
+					let entries = this._urlPools.get(key);
+					if (entries === undefined) {
+						entries = [];
+						this._urlPools.set(key, entries);
+					}
+					entries.splice(indices[i], 0, entry);
+				});
+			});
 		}
-		else if ("regex" in config) {
-			const pool = new RequestPool(config, this.adapter);
-			this._regexPools.push([config.regex, pool]);
+		else if ("regex" in config || "pattern" in config) {
+			let regex: RegExp;
+			let name: string;
+			let matcher: RuleMatcher;
+			if ("regex" in config) {
+				if (!(config.regex instanceof RegExp))
+					throw new TypeError(`Invalid regex: ${config.regex}`);
+				regex = config.regex;
+				name = config.name ?? regex.toString();
+				matcher = { ...conditions, regex: regex.source, flags: regex.flags };
+			}
+			else {
+				if (typeof config.pattern !== "string")
+					throw new TypeError(`Invalid pattern: ${config.pattern}`);
+				regex = compilePattern(config.pattern);
+				name = config.name ?? config.pattern;
+				matcher = { ...conditions, pattern: config.pattern };
+			}
+			const entry: PoolEntry<T> = { pool: this.createPool(config, name), filter };
+			const item: [RegExp, PoolEntry<T>] = [regex, entry];
+			this._regexPools.push(item);
+			return this.createRule(name, config, matcher, entry.pool, pool => entry.pool = pool, () => {
+				const index = this._regexPools.indexOf(item);
+				this._regexPools.splice(index, 1);
+				return () => this._regexPools.splice(index, 0, item);
+			});
 		}
 		else if ("match" in config) {
-			const pool = new RequestPool(config, this.adapter);
-			this._customPools.push([config.match, pool]);
+			const name = config.name ?? "custom";
+			const entry: PoolEntry<T> = { pool: this.createPool(config, name), filter };
+			const item: [CustomThrottleConfig["match"], PoolEntry<T>] = [config.match, entry];
+			this._customPools.push(item);
+			return this.createRule(name, config, undefined, entry.pool, pool => entry.pool = pool, () => {
+				const index = this._customPools.indexOf(item);
+				this._customPools.splice(index, 1);
+				return () => this._customPools.splice(index, 0, item);
+			});
 		}
 		else
 			throw new TypeError(`Invalid config: ${config}`);
 	}
+
+	/**
+	 * Configures rules from their JSON-serializable definitions, e.g. fetched from a server or a config file.
+	 * The rules loaded by the previous call are removed, so that calling this again replaces the loaded rules
+	 * as a whole, while rules added via `configure` are kept.
+	 * If a rule can't be configured, the rules of this call configured so far are removed, the previously loaded rules
+	 * are restored and the error is rethrown.
+	 * @param definitions The rule definitions, or a JSON string of them.
+	 * @param policy What happens to the requests waiting in the pools of the replaced rules.
+	 * They migrate to the new rules if `migrate` is used.
+	 * @returns The handles of the loaded rules, in the order of the definitions.
+	 * @throws {TypeError} If the definitions are invalid.
+	 * @throws {SyntaxError} If the JSON string is malformed.
+	 * @throws {Error} If a pool for the URL scope of a rule already exists.
+	 */
+	loadRules(definitions: string | ThrottleRuleDefinition[], policy: MigrationPolicy = "migrate"): ThrottleRule[] {
+		const list: unknown = typeof definitions == "string" ? JSON.parse(definitions) : definitions;
+		if (!Array.isArray(list))
+			throw new TypeError("Rule definitions must be an array");
+		if (policy !== "migrate" && policy !== "drain")
+			throw new TypeError(`Invalid migration policy: ${policy}`);
+		const configs = list.map(parseRuleDefinition);
+		const order = Array.from(this._rules);
+		const loaded = this._loadedRules.filter(rule => !rule.removed);
+		const detached = loaded.map(rule => this._rules.get(rule)!.detach(policy));
+		this._loadedRules = [];
+		const rules = new Array<ThrottleRule>();
+		try {
+			for (const config of configs)
+				rules.push(this.configure(config));
+		}
+		catch (error) {
+			rules.forEach(rule => rule.remove(policy));
+			// A bad definition must not lift the throttling of the previous rules
+			detached.reverse().forEach(rule => rule.restore());
+			this._rules.clear();
+			order.forEach(([rule, entry]) => this._rules.set(rule, entry));
+			this._loadedRules = loaded;
+			throw error;
+		}
+		detached.forEach(rule => rule.retire());
+		this._loadedRules = rules;
+		return rules;
+	}
+
+	/**
+	 * Gets the definitions of the active rules in the order they were configured, e.g. for debugging
+	 * or to be loaded elsewhere via `loadRules`. Rules with custom matchers can't be serialized and are left out,
+	 * as are `shouldRetry` functions.
+	 */
+	exportRules(): ThrottleRuleDefinition[] {
+		const definitions = new Array<ThrottleRuleDefinition>();
+		for (const entry of this._rules.values()) {
+			const definition = entry.define();
+			if (definition !== undefined)
+				definitions.push(definition);
+		}
+		return definitions;
+	}
 }
 
-export type ThrottledFetchInst<T extends ExtendedFetch<any, any, any> = Fetch> = OnlyFetch<T> & ThrottledFetch<T>;
+export type ThrottledFetchInst<T extends ExtendedFetch<any, any, any> = Fetch> = ThrottledFetchFunction<T> & ThrottledFetch<T>;
 
 /**
  * Creates a throttled fetch function with custom default configuration.
@@ -231,7 +825,7 @@ export type ThrottledFetchInst<T extends ExtendedFetch<any, any, any> = Fetch> =
  * @param adapter An optional custom fetch-compatible function. Defaults to global `fetch`.
  * @returns A function that behaves like `fetch` but is throttled, and also exposes the `ThrottledFetch` instance methods.
  */
-export function createThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch>(config?: DefaultThrottleConfig, adapter?: T): ThrottledFetchInst<T>;
+export function createThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch>(config?: DefaultThrottleConfig<NoInfer<T>>, adapter?: T): ThrottledFetchInst<T>;
 /**
  * Creates a throttled fetch function.
  * This function acts like the standard `fetch` but applies throttling rules defined
@@ -241,23 +835,8 @@ export function createThrottledFetch<T extends ExtendedFetch<any, any, any> = Fe
  * @returns A function that behaves like `fetch` but is throttled, and also exposes the `ThrottledFetch` instance methods.
  */
 export function createThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch>(adapter?: T): ThrottledFetchInst<T>;
-export function createThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch>(param1?: T | DefaultThrottleConfig, param2?: T): ThrottledFetchInst<T> {
+export function createThrottledFetch<T extends ExtendedFetch<any, any, any> = Fetch>(param1?: T | DefaultThrottleConfig<T>, param2?: T): ThrottledFetchInst<T> {
 	const [config, adaptor] = typeof param1 == "function" ? [undefined, param1] : [param1, param2];
 	const inst = new ThrottledFetch<T>(config, adaptor);
-	const func = () => { };
-	const proxy = new Proxy(func, {
-		apply(_, __, args) {
-			// @ts-ignore
-			return inst.invoke(...args);
-		},
-		get: (_, prop) => Reflect.get(inst, prop),
-		set: (_, prop, value) => Reflect.set(inst, prop, value),
-		has: (_, prop) => Reflect.has(inst, prop),
-		getOwnPropertyDescriptor: (_, prop) => Reflect.getOwnPropertyDescriptor(inst, prop),
-		getPrototypeOf: () => Reflect.getPrototypeOf(inst),
-		isExtensible: () => Reflect.isExtensible(inst),
-		preventExtensions: () => Reflect.preventExtensions(inst),
-		ownKeys: () => Reflect.ownKeys(inst)
-	});
-	return proxy as unknown as ThrottledFetchInst<T>;
+	return createCallable(inst) as unknown as ThrottledFetchInst<T>;
 }
\ No newline at end of file
@@ -1,5 +1,13 @@
+export { CircuitOpenError } from "./CircuitBreaker";
+export { systemClock, VirtualClock } from "./Clock";
+export { CrossTabCoordinator, type CrossTabCoordinatorOptions } from "./CrossTabCoordinator";
+export { TaskPool, type TaskOptions, type TaskPoolOptions } from "./TaskPool";
+export { createTaskThrottler, TaskThrottler, type TaskThrottlerInst, type TaskThrottlerOptions } from "./TaskThrottler";
 export { createThrottledFetch, ThrottledFetch, type ThrottledFetchInst } from "./ThrottledFetch";
 export type {
-	Fetch, ExtendedFetch, ThrottleConfig, ThrottleScope, DefaultThrottleConfig,
-	DomainThrottleConfig, PathThrottleConfig, RegexThrottleConfig, CustomThrottleConfig, SpecifiedThrottleConfig
+	Fetch, ExtendedFetch, ThrottledFetchFunction, ThrottledRequestInit, RequestThrottleOptions,
+	ThrottleConfig, ThrottleScope, DefaultThrottleConfig, CoalesceConfig, RuleThrottleConfig, DomainThrottleConfig,
+	PathThrottleConfig, RegexThrottleConfig, PatternThrottleConfig, CustomThrottleConfig, SpecifiedThrottleConfig, ThrottleRuleDefinition, MigrationPolicy, OverflowPolicy, ThrottleRule,
+	ThrottleEvent, ThrottleEventListener, ThrottleEventType, TaskEvent, TaskEventListener, ThrottleChannel, ThrottleCoordinator, RequestDescriptor,
+	CircuitBreakerConfig, CircuitState, ThrottleStats, PoolSnapshot, PoolType, LatencyStats, Clock, ThrottleMiddleware, MiddlewareContext
 } from "./types";
\ No newline at end of file
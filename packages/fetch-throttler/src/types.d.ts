@@ -2,24 +2,179 @@ import type { Arrayable, Promisable } from "type-fest";
 
 export type Fetch = typeof fetch;
 
-export interface ExtendedFetch<TReq extends Request = Request, TRes extends Response = Response, TExtra extends [] = []> {
+export interface ExtendedFetch<
+	TReq extends Request = Request,
+	TRes extends Response = Response,
+	TExtra extends [] = [],
+	TInit extends RequestInit = RequestInit
+> {
 	(input: TReq): Promise<TRes>;
-	(input: string | URL, init?: RequestInit): Promise<TRes>;
-	(input: string | URL | TReq, init?: RequestInit, ...extra: TExtra): Promise<TRes>;
+	(input: string | URL, init?: TInit): Promise<TRes>;
+	(input: string | URL | TReq, init?: TInit, ...extra: TExtra): Promise<TRes>;
 }
 
 export type OnlyFetch<T> =
 	T extends ExtendedFetch<infer TReq, infer TRes, infer TExtra>
 	? ExtendedFetch<TReq, TRes, TExtra> : never;
 
+/**
+ * The fetch signature of a throttled fetch function, which additionally accepts {@link ThrottledRequestInit}.
+ */
+export type ThrottledFetchFunction<T> =
+	T extends ExtendedFetch<infer TReq, infer TRes, infer TExtra>
+	? ExtendedFetch<TReq, TRes, TExtra, ThrottledRequestInit> : never;
+
 export type FetchParams<T extends Fetch = Fetch> = Parameters<T>;
 
 export type FetchReturn<T extends Fetch = Fetch> = Awaited<ReturnType<T>>;
 
+/**
+ * Defines how the delay before a retry grows with the number of attempts.
+ * - `constant`: Every retry waits for `retryDelay`.
+ * - `exponential`: The n-th retry waits for `retryDelay * 2^(n-1)`.
+ * - `exponential-jitter`: The n-th retry waits for a random duration between 0 and `retryDelay * 2^(n-1)`.
+ */
+export type RetryBackoff = "constant" | "exponential" | "exponential-jitter";
+
+/**
+ * Defines what happens to a new request when the queue of its pool has reached its capacity.
+ * - `reject`: The new request is rejected.
+ * - `drop-oldest`: The request waiting the longest in the queue is rejected to make room.
+ * - `drop-lowest-priority`: The request that would be dequeued last is rejected to make room,
+ *   unless the new request doesn't outrank it, in which case the new request is rejected.
+ * - `wait`: The new request waits outside the queue until there is room.
+ */
+export type OverflowPolicy = "reject" | "drop-oldest" | "drop-lowest-priority" | "wait";
+
+/**
+ * Allows at most `limit` requests to start within any time window of `window` milliseconds.
+ * For example, `{ type: "sliding-window", limit: 100, window: 60000 }` means 100 requests per minute.
+ */
+export interface SlidingWindowRateLimit {
+	type: "sliding-window";
+
+	/**
+	 * The maximum number of requests that can start within a window, or their total `cost` if it's not 1.
+	 */
+	limit: number;
+
+	/**
+	 * The length of the window in milliseconds.
+	 */
+	window: number;
+}
+
+/**
+ * Allows bursts of up to `burst` requests, while refilling the budget at `rate` requests per `period` milliseconds.
+ * For example, `{ type: "token-bucket", rate: 10, burst: 20 }` means 10 requests per second with bursts of 20.
+ */
+export interface TokenBucketRateLimit {
+	type: "token-bucket";
+
+	/**
+	 * The number of tokens refilled per `period`. Each request consumes as many tokens as its `cost`, 1 by default.
+	 */
+	rate: number;
+
+	/**
+	 * The refill period in milliseconds.
+	 * @default 1000
+	 */
+	period?: number;
+
+	/**
+	 * The capacity of the bucket, i.e. the maximum number of requests that can start at once after being idle.
+	 * @default rate
+	 */
+	burst?: number;
+}
+
+export type RateLimit = SlidingWindowRateLimit | TokenBucketRateLimit;
+
+/**
+ * Options of the adaptive mode, in which the effective concurrency and interval of a pool
+ * are adjusted by an AIMD (additive increase, multiplicative decrease) controller.
+ */
+export interface AdaptiveConfig {
+	/**
+	 * The lower bound of the effective concurrency.
+	 * @default 1
+	 */
+	minConcurrency?: number;
+
+	/**
+	 * The upper bound of the effective interval in milliseconds.
+	 * @default 10000
+	 */
+	maxInterval?: number;
+
+	/**
+	 * The factor by which the effective concurrency is multiplied, and the effective interval divided,
+	 * when a throttling response (429 or 503) or a latency spike is observed. Should be between 0 and 1.
+	 * @default 0.5
+	 */
+	decreaseFactor?: number;
+
+	/**
+	 * The amount by which the effective concurrency grows after a full round of healthy responses,
+	 * until it reaches `maxConcurrency` again.
+	 * @default 1
+	 */
+	increaseStep?: number;
+
+	/**
+	 * The amount in milliseconds by which the effective interval is widened at least when backing off,
+	 * and narrowed after a full round of healthy responses, until it reaches `interval` again.
+	 * @default 100
+	 */
+	intervalStep?: number;
+
+	/**
+	 * A latency spike is detected when the recent average latency exceeds the long-term average by this factor.
+	 * If set to 0 or negative, latency is not taken into account.
+	 * @default 3
+	 */
+	latencyFactor?: number;
+}
+
+/**
+ * Options of the circuit breaker of a pool, which stops sending requests to a service that keeps failing.
+ */
+export interface CircuitBreakerConfig {
+	/**
+	 * The number of consecutive failed attempts within `window` that opens the circuit. An attempt fails if it
+	 * rejects (except when the request was aborted) or returns a 429 or 5xx response.
+	 * @default 5
+	 */
+	failureThreshold?: number;
+
+	/**
+	 * The time in milliseconds within which the failures must occur to open the circuit.
+	 * @default 10000
+	 */
+	window?: number;
+
+	/**
+	 * The time in milliseconds the circuit stays open before a probe request is let through.
+	 * @default 30000
+	 */
+	cooldown?: number;
+}
+
+/**
+ * The state of the circuit breaker of a pool.
+ * - `closed`: Requests are handled normally.
+ * - `open`: New requests are rejected with a `CircuitOpenError` right away.
+ * - `half-open`: The cooldown has elapsed, and the next request is let through as a probe. Its first attempt
+ *  closes the circuit if it succeeds, or opens it again otherwise. Other requests are rejected meanwhile.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
 /**
  * Defines the core throttling configuration options applicable to a request pool.
+ * @template TResult The result of a request, which is a `Response` unless the config is used for a `TaskPool`.
  */
-export interface ThrottleConfig {
+export interface ThrottleConfig<TResult = Response> {
 	/**
 	 * The maximum number of requests that can be executed concurrently within this pool.
 	 * If set to 0 or negative, no concurrency limit is applied.
@@ -35,6 +190,14 @@ export interface ThrottleConfig {
 	 */
 	interval?: number;
 
+	/**
+	 * Additional rate limits applied to the start of requests within this pool.
+	 * Multiple limits can be stacked, e.g. a per-second limit together with a per-day limit,
+	 * in which case a request only starts when all of them allow it.
+	 * @default []
+	 */
+	rateLimits?: Arrayable<RateLimit>;
+
 	/**
 	 * The maximum number of times a failed request (network error or non-ok response)
 	 * should be automatically retried. If set to 0 or negative, no retries will be performed.
@@ -42,14 +205,115 @@ export interface ThrottleConfig {
 	 */
 	maxRetry?: number;
 
+	/**
+	 * The strategy used to compute the delay before a retry.
+	 * @default "constant"
+	 */
+	retryBackoff?: RetryBackoff;
+
+	/**
+	 * The base delay in milliseconds before a failed request is retried.
+	 * If set to 0 or negative, failed requests are enqueued again immediately (unless `respectRetryAfter` applies).
+	 * @default 0
+	 */
+	retryDelay?: number;
+
+	/**
+	 * The maximum delay in milliseconds before a retry, including the delay requested by a `Retry-After` header.
+	 * If set to 0 or negative, the delay is not capped.
+	 * @default 0
+	 */
+	maxRetryDelay?: number;
+
+	/**
+	 * Whether to honor the `Retry-After` header of 429 and 503 responses when retrying.
+	 * If the header asks for a longer delay than the one computed from `retryBackoff`, the former is used.
+	 * @default true
+	 */
+	respectRetryAfter?: boolean;
+
+	/**
+	 * Whether to follow the budget reported by the rate limit headers of responses, i.e. the IETF `RateLimit` and
+	 * `RateLimit-Policy` headers, or `X-RateLimit-Remaining` and `X-RateLimit-Reset`. Once the reported budget is
+	 * used up, the pool stops starting requests until the reported reset time, in addition to its own limits.
+	 * Requests started after a response was sent count towards the reported budget as well.
+	 * @default false
+	 */
+	respectRateLimitHeaders?: boolean;
+
 	/**
 	 * The maximum number of requests that can be waiting in the queue for this pool.
-	 * If the queue reaches this capacity, subsequent requests targeting this pool will
-	 * be rejected immediately. If set to 0 or negative, the queue size is unlimited.
+	 * If the queue reaches this capacity, subsequent requests targeting this pool are
+	 * handled according to `overflow`. If set to 0 or negative, the queue size is unlimited.
+	 * Requests waiting for the delay before a retry don't count towards the capacity.
 	 * @default 0
 	 */
 	capacity?: number;
 
+	/**
+	 * What happens to a new request when the queue has reached its `capacity`.
+	 * @default "reject"
+	 */
+	overflow?: OverflowPolicy;
+
+	/**
+	 * The time in milliseconds a waiting request needs to gain one level of priority.
+	 * This prevents low-priority requests from being starved by a constant flow of high-priority ones.
+	 * If set to 0 or negative, the priority of a waiting request never changes.
+	 * @default 1000
+	 */
+	priorityAging?: number;
+
+	/**
+	 * The maximum duration in milliseconds of a single attempt. When exceeded, the attempt is aborted
+	 * and fails with a `DOMException` named `TimeoutError`, which is retried (up to `maxRetry` times)
+	 * unless `shouldRetry` decides otherwise. If set to 0 or negative, attempts never time out.
+	 * @default 0
+	 */
+	timeout?: number;
+
+	/**
+	 * The maximum duration in milliseconds of a request as a whole, covering the time spent in the queue,
+	 * all attempts and the delays between them. When exceeded, the request is rejected with a `DOMException`
+	 * named `TimeoutError` and is not retried. If set to 0 or negative, requests have no deadline.
+	 * @default 0
+	 */
+	deadline?: number;
+
+	/**
+	 * The number of units each request consumes from `rateLimits`, e.g. to model quotas in which some endpoints
+	 * cost more than others. A cost exceeding the capacity of a rate limit consumes all of it. `interval` and
+	 * `maxConcurrency` still count each request once. Can be overridden per request.
+	 * @default 1
+	 */
+	cost?: number;
+
+	/**
+	 * The maximum size in bytes of a request body that is buffered before the first attempt, so that retries can
+	 * resend it. Only bodies that can be sent once are buffered, i.e. the bodies of `Request` objects and streams.
+	 * Requests whose bodies exceed the limit are still sent, but never retried. If set to 0 or negative,
+	 * such bodies are never buffered, and their requests are never retried. Only applies to fetch requests.
+	 * @default 1048576
+	 */
+	maxReplayBodySize?: number;
+
+	/**
+	 * Enables the adaptive mode, in which the pool backs off when it observes throttling responses (429 or 503)
+	 * or rising latency, by lowering the effective concurrency and widening the effective interval.
+	 * Both slowly grow back to `maxConcurrency` and `interval` while responses are healthy.
+	 * Pass `true` to use the default options.
+	 * @default false
+	 */
+	adaptive?: boolean | AdaptiveConfig;
+
+	/**
+	 * Enables the circuit breaker, which opens after a run of failed attempts. While open, new requests fail fast
+	 * with a `CircuitOpenError` without being queued, and the requests waiting in the pool are rejected with it as well.
+	 * Pass `true` to use the default options.
+	 * @default false
+	 */
+	circuitBreaker?: boolean | CircuitBreakerConfig;
+
 	/**
 	 * A function that determines whether a request should be retried based on the error or response object.
 	 * @param errOrRes The error or response object from the request.
@@ -58,10 +322,67 @@ export interface ThrottleConfig {
 	 * - `false`: If `errOrRes` is a `Response`, the request will succeed (even if the response is not ok);
 	 *  if `errOrRes` is an `Error`, the request will fail without retrying.
 	 * - `void`: The default behavior will be applied (retry on errors and non-ok responses).
-	 * @note If `errOrRes` is a `Response`, make sure to `clone()` it if the response body is needed.
-	 * Otherwise, the caller of `ThrottledFetch` will not be able to consume the response body.
+	 * @note If `errOrRes` is a `Response`, it's a clone of the response, so its body can be read without affecting
+	 * the caller of `ThrottledFetch`. For a `TaskPool`, `errOrRes` is the result of the task instead of a response.
+	 */
+	shouldRetry?: (errOrRes: Error | TResult) => Promisable<boolean | void>;
+}
+
+/**
+ * Throttling options for a single request.
+ */
+export interface RequestThrottleOptions {
+	/**
+	 * The priority of the request. Among the waiting requests of a pool, the ones with higher priority are dequeued first.
+	 * Requests with the same priority are dequeued in the order they were added.
+	 * @default 0
+	 */
+	priority?: number;
+
+	/**
+	 * The number of retries already made for the request elsewhere, e.g. before the page was reloaded,
+	 * which count towards `maxRetry` and the attempt numbers of events.
+	 * @default 0
+	 */
+	retried?: number;
+
+	/**
+	 * Overrides `maxRetry` of the matching rule for this request, e.g. `0` for a request that must never be retried.
+	 */
+	maxRetry?: number;
+
+	/**
+	 * Decides whether to retry this request, like `shouldRetry` of the matching rule. If it returns `undefined`,
+	 * `shouldRetry` of the rule is consulted, and then the default behavior applies.
+	 */
+	shouldRetry?: ThrottleConfig["shouldRetry"];
+
+	/**
+	 * Overrides `timeout` of the matching rule for this request. `0` disables the timeout.
 	 */
-	shouldRetry?: (errOrRes: Error | Response) => Promisable<boolean | void>;
+	timeout?: number;
+
+	/**
+	 * Overrides `cost` of the matching rule for this request, e.g. for an expensive search among cheap reads.
+	 */
+	cost?: number;
+
+	/**
+	 * If `true`, the request is passed to the adapter right away, skipping the pools altogether.
+	 * It doesn't count towards any limit, isn't coalesced, and the other options are ignored.
+	 * @default false
+	 */
+	bypass?: boolean;
+}
+
+/**
+ * The fetch init accepted by a throttled fetch function.
+ */
+export interface ThrottledRequestInit extends RequestInit {
+	/**
+	 * Throttling options for this request.
+	 */
+	throttle?: RequestThrottleOptions;
 }
 
 /**
@@ -72,16 +393,180 @@ export interface ThrottleConfig {
  */
 export type ThrottleScope = "global" | "domain" | "path";
 
-export interface DefaultThrottleConfig extends ThrottleConfig {
+/**
+ * Describes a request for matching rules and keying pools, without consuming its body.
+ */
+export interface RequestDescriptor {
+	readonly url: URL;
+
+	/**
+	 * The upper-cased method of the request.
+	 */
+	readonly method: string;
+
+	/**
+	 * The headers of the request, taken from the init if given, or from the `Request` object otherwise.
+	 */
+	readonly headers: Headers;
+
+	/**
+	 * The parameters passed to the throttled fetch, e.g. to inspect extra arguments of an extended fetch.
+	 */
+	readonly params: readonly unknown[];
+}
+
+/**
+ * Options of coalescing identical requests made at the same time.
+ */
+export interface CoalesceConfig {
+	/**
+	 * The names of the request headers that must be equal as well for requests to be considered identical,
+	 * in addition to the method and the URL, e.g. `["Authorization", "Accept"]`.
+	 * @default []
+	 */
+	headers?: string[];
+
+	/**
+	 * A custom function computing the key identifying identical requests, replacing the default key made of
+	 * the method, the URL and `headers`. Requests for which it returns `undefined` are not coalesced.
+	 * By default, only `GET` and `HEAD` requests are coalesced.
+	 */
+	key?: (input: RequestInfo | URL, init?: RequestInit) => string | undefined;
+}
+
+/**
+ * @template T The type of the underlying fetch function, which the middleware is typed for.
+ */
+export interface DefaultThrottleConfig<T extends ExtendedFetch<any, any, any> = Fetch> extends ThrottleConfig {
 	/**
 	 * The default scope to apply for creating request pools when no specific config matches.
 	 * Determines how the default pools are keyed (globally, by domain, or by path).
 	 * @default "global"
 	 */
 	scope?: ThrottleScope;
+
+	/**
+	 * A limit shared by all requests across all pools, e.g. an account-wide quota covering all hosts.
+	 * Only the limits on starting requests apply, i.e. `maxConcurrency`, `interval`, `rateLimits` and `adaptive`.
+	 */
+	globalLimit?: ThrottleConfig;
+
+	/**
+	 * Whether identical requests made while one of them is waiting or active share a single request,
+	 * i.e. a single slot in the pool and a single call to the adapter. Each caller receives its own clone of the response.
+	 * @default false
+	 */
+	coalesce?: boolean | CoalesceConfig;
+
+	/**
+	 * Shares the concurrency and rate limit state of pools with the same keys in other contexts, e.g. other tabs
+	 * of the same origin, so that limits apply across all of them. See `CrossTabCoordinator`.
+	 */
+	coordinator?: ThrottleCoordinator;
+
+	/**
+	 * Computes the key of the default pool of a request, replacing the key derived from `scope`, e.g. to give
+	 * each API key its own pool, or to separate writes from reads. Requests for which it returns `undefined`
+	 * are keyed according to `scope`.
+	 */
+	keyBy?: (request: RequestDescriptor) => string | undefined;
+
+	/**
+	 * The source of time and timers of all pools, e.g. a `VirtualClock` to test throttling without real delays.
+	 * Note that a `coordinator` exchanges real timestamps with other contexts, so it should use the system clock.
+	 * @default The system clock, based on `performance.now()` and the global `setTimeout`.
+	 */
+	clock?: Clock;
+
+	/**
+	 * An ordered chain of middleware through which all requests pass, e.g. to inject auth tokens or to log responses.
+	 * More middleware can be added later via `ThrottledFetch.use`.
+	 * @default []
+	 */
+	middleware?: ThrottleMiddleware<T>[];
+}
+
+/**
+ * The context of an attempt passed to middleware.
+ */
+export interface MiddlewareContext {
+	/**
+	 * The 1-based number of the attempt, i.e. retries have numbers greater than 1.
+	 */
+	readonly attempt: number;
+
+	/**
+	 * The key of the pool handling the request.
+	 */
+	readonly key: string;
+
+	/**
+	 * The state and metrics of the pool handling the request, taken when first accessed.
+	 */
+	readonly pool: PoolSnapshot;
+}
+
+/**
+ * Hooks into the lifecycle of requests made via `ThrottledFetch`. Each hook may return a replacement of its first
+ * argument, or nothing to keep it. Hooks may be async, and errors thrown by them reject the request or fail the attempt.
+ * The hooks of the chain run in order, except for `onResponse`, which runs in reverse order, so that the first
+ * middleware sees the request first and the response last.
+ */
+export interface ThrottleMiddleware<T extends ExtendedFetch<any, any, any> = Fetch> {
+	/**
+	 * Rewrites the request once before it's queued. The rules are matched against the rewritten request.
+	 * Bypassed requests only pass through this hook.
+	 */
+	onRequest?(params: FetchParams<T>): Promisable<FetchParams<T> | void>;
+
+	/**
+	 * Rewrites the request before each attempt, e.g. to inject a freshly refreshed token into a retry.
+	 * The init of the parameters carries the abort signal of the attempt, which must be kept when replacing it.
+	 */
+	onAttempt?(params: FetchParams<T>, context: MiddlewareContext): Promisable<FetchParams<T> | void>;
+
+	/**
+	 * Inspects or transforms the response of each attempt, before the pool decides whether to retry it.
+	 * Not called if the attempt fails with an error.
+	 */
+	onResponse?(response: FetchReturn<T>, context: MiddlewareContext): Promisable<FetchReturn<T> | void>;
 }
 
-export interface DomainThrottleConfig extends ThrottleConfig {
+/**
+ * Options shared by all specific throttling rules.
+ */
+export interface RuleThrottleConfig extends ThrottleConfig {
+	/**
+	 * The name of the rule, which is used as the pool key in events.
+	 * Defaults to the domains or paths of a URL-based rule, the pattern of a regex rule, or `custom` for a custom rule.
+	 */
+	name?: string;
+
+	/**
+	 * If `true`, requests matching this rule must also satisfy the limits of the rule they would match without it,
+	 * e.g. a path rule is nested in the domain rule for the same host, or in the default pool if there's none.
+	 * Only the limits on starting requests of the enclosing rules apply, while retries, timeouts and capacity
+	 * are still governed by this rule. If the enclosing rule is nested as well, its enclosing rule applies too.
+	 * @default false
+	 */
+	nested?: boolean;
+
+	/**
+	 * The methods of the requests the rule applies to, in addition to its other criteria, e.g. `["POST", "PUT"]`.
+	 * Other requests fall through to the next matching rule.
+	 * @default undefined (any method)
+	 */
+	methods?: Arrayable<string>;
+
+	/**
+	 * The headers of the requests the rule applies to, in addition to its other criteria. Maps a header name
+	 * to the exact value required, to `true` if the header must be present, or to `false` if it must be absent.
+	 * Other requests fall through to the next matching rule.
+	 */
+	headers?: Record<string, string | boolean>;
+}
+
+export interface DomainThrottleConfig extends RuleThrottleConfig {
 	/**
 	 * The scope for this specific rule. Must be `domain`.
 	 */
@@ -99,7 +584,7 @@ export interface DomainThrottleConfig extends ThrottleConfig {
 	domains?: Arrayable<string>;
 }
 
-export interface PathThrottleConfig extends ThrottleConfig {
+export interface PathThrottleConfig extends RuleThrottleConfig {
 	/**
 	 * The scope for this specific rule. Must be `path`.
 	 */
@@ -120,19 +605,391 @@ export interface PathThrottleConfig extends ThrottleConfig {
 	matchSubpath?: boolean;
 }
 
-export interface RegexThrottleConfig extends ThrottleConfig {
+export interface RegexThrottleConfig extends RuleThrottleConfig {
 	/**
 	 * The regular expression pattern to test against the full URL string (`url.href`).
 	 */
 	regex: RegExp;
 }
 
-export interface CustomThrottleConfig extends ThrottleConfig {
+export interface CustomThrottleConfig extends RuleThrottleConfig {
 	/**
-	 * A custom function that receives the `URL` object of the request.
+	 * A custom function that receives the `URL` object of the request, along with its method and headers.
 	 * If the function returns `true`, this configuration's throttling rules are applied.
 	 */
-	match: (url: URL) => boolean;
+	match: (url: URL, request: RequestDescriptor) => boolean;
+}
+
+export interface PatternThrottleConfig extends RuleThrottleConfig {
+	/**
+	 * A glob pattern to test against the URL without its query and hash, e.g. `https://*.example.com/api/**`.
+	 * - `*` matches any characters except `/`, and `**` matches any characters including `/`.
+	 * - `?` matches a single character except `/`.
+	 * - `:name` matches a single non-empty segment, like in `URLPattern`.
+	 * - A trailing `/**` also matches the path without it.
+	 * - If the pattern doesn't start with a protocol, e.g. `api.example.com/users/:id`, any protocol matches.
+	 */
+	pattern: string;
+}
+
+export type SpecifiedThrottleConfig = DomainThrottleConfig | PathThrottleConfig | RegexThrottleConfig | PatternThrottleConfig | CustomThrottleConfig;
+
+/**
+ * The JSON-serializable options of a rule, i.e. everything except functions.
+ */
+type SerializableRuleConfig = Omit<RuleThrottleConfig, "shouldRetry">;
+
+/**
+ * A JSON-serializable form of `SpecifiedThrottleConfig`, e.g. to load throttling rules from a config file or a server
+ * via `ThrottledFetch.loadRules`. Custom matchers and `shouldRetry` functions can't be expressed this way.
+ */
+export type ThrottleRuleDefinition =
+	| SerializableRuleConfig & { scope: "domain"; url?: Arrayable<string>; domains?: Arrayable<string> }
+	| SerializableRuleConfig & { scope: "path"; url: Arrayable<string>; matchSubpath?: boolean }
+	| SerializableRuleConfig & {
+		/**
+		 * The source of the regular expression to test against the full URL string.
+		 */
+		regex: string;
+
+		/**
+		 * The flags of the regular expression.
+		 */
+		flags?: string;
+	}
+	| SerializableRuleConfig & Pick<PatternThrottleConfig, "pattern">;
+
+/**
+ * Defines what happens to the waiting requests of a pool when its rule is updated or removed.
+ * - `migrate`: Waiting requests, as well as active requests retried later, are moved to the pools now matching them.
+ * - `drain`: Waiting requests stay in the old pool and are processed with the old configuration.
+ */
+export type MigrationPolicy = "migrate" | "drain";
+
+/**
+ * The source of time and timers of the pools, which can be replaced to control time, e.g. with a `VirtualClock` in tests.
+ */
+export interface Clock {
+	/**
+	 * Gets the current time in milliseconds, which must never go backwards. Only differences between values matter,
+	 * like with `performance.now()`.
+	 */
+	now(): number;
+
+	/**
+	 * Gets the current time in milliseconds since the Unix epoch, like `Date.now()`.
+	 * Used to resolve dates, e.g. in `Retry-After` headers.
+	 */
+	date(): number;
+
+	/**
+	 * Calls the callback once after the delay in milliseconds, like the global `setTimeout`.
+	 * @returns A handle to cancel the timer via `clearTimeout`.
+	 */
+	setTimeout(callback: () => void, delay: number): unknown;
+
+	/**
+	 * Cancels a timer created via `setTimeout`. Does nothing if the timer has fired, or if the handle is `undefined`.
+	 */
+	clearTimeout(timer: unknown): void;
+
+	/**
+	 * Gets a random number in `[0, 1)`, like `Math.random()`. Used to spread out retries, e.g. by `exponential-jitter`.
+	 * @default `Math.random`
+	 */
+	random?(): number;
+}
+
+/**
+ * Shares the state of a pool with the pools of the same key in other contexts, e.g. other tabs or workers.
+ */
+export interface ThrottleChannel {
+	/**
+	 * The number of requests of the pool active in other contexts.
+	 */
+	readonly remoteActive: number;
+
+	/**
+	 * Announces that a request of the pool started in this context.
+	 * @param cost The cost of the request, which it consumes from the rate limits.
+	 */
+	start(cost: number): void;
+
+	/**
+	 * Announces that a request of the pool finished in this context.
+	 */
+	finish(): void;
+
+	/**
+	 * Subscribes to the requests of the pool starting and finishing in other contexts.
+	 * @param onStart Receives the start time of a remote request, relative to `performance.timeOrigin` of this context,
+	 * and its cost.
+	 * @param onFinish Called when a remote request finishes.
+	 */
+	listen(onStart: (time: number, cost: number) => void, onFinish: () => void): void;
+
+	/**
+	 * Stops sharing the state of the pool.
+	 */
+	close(): void;
+}
+
+/**
+ * Creates the channels through which pools share their state with other contexts.
+ */
+export interface ThrottleCoordinator {
+	/**
+	 * Creates a channel for the pool with the given key.
+	 * @returns `undefined` if the state can't be shared, in which case the pool only uses its local state.
+	 */
+	join(key: string): ThrottleChannel | undefined;
+}
+
+/**
+ * A handle of a throttling rule added via `ThrottledFetch.configure`.
+ */
+export interface ThrottleRule {
+	/**
+	 * The name of the rule, which is also the key of its pool in events.
+	 */
+	readonly name: string;
+
+	/**
+	 * Whether the rule has been removed.
+	 */
+	readonly removed: boolean;
+
+	/**
+	 * Whether the rule is paused via `pause`.
+	 */
+	readonly paused: boolean;
+
+	/**
+	 * Replaces the throttling options of the rule, while its name, its matching criteria and `nested` stay the same.
+	 * New requests use the new options right away.
+	 * @param config The new throttling options. Options not specified fall back to their defaults.
+	 * @param policy What happens to the requests waiting in the pool of the rule.
+	 * @throws {Error} If the rule has been removed.
+	 */
+	update(config: ThrottleConfig, policy?: MigrationPolicy): void;
+
+	/**
+	 * Removes the rule. New requests fall back to other matching rules or the default configuration.
+	 * Does nothing if the rule has already been removed.
+	 * @param policy What happens to the requests waiting in the pool of the rule.
+	 */
+	remove(policy?: MigrationPolicy): void;
+
+	/**
+	 * Stops starting the waiting requests of the rule until `resume` is called. Active requests are not affected.
+	 */
+	pause(): void;
+
+	/**
+	 * Resumes starting the waiting requests of the rule after `pause`.
+	 */
+	resume(): void;
+
+	/**
+	 * Waits until the rule has neither active nor waiting requests, including those drained after an update.
+	 */
+	idle(): Promise<void>;
+
+	/**
+	 * Rejects all waiting requests of the rule. Active requests are not affected.
+	 * @param reason The reason of the rejection. Defaults to a `DOMException` named `AbortError`.
+	 * @returns The number of rejected requests.
+	 */
+	clear(reason?: any): number;
+}
+
+/**
+ * The statistics of the requests in a pool.
+ */
+export interface ThrottleStats {
+	completed: number;
+
+	active: number;
+
+	waiting: number;
+
+	/**
+	 * The state of the circuit breaker, if the pool has one.
+	 */
+	circuit?: CircuitState;
+}
+
+/**
+ * A summary of the durations of the recent attempts in a pool, in milliseconds.
+ */
+export interface LatencyStats {
+	/**
+	 * The number of attempts the summary is based on, which is capped to the most recent ones.
+	 */
+	count: number;
+
+	mean: number;
+
+	p50: number;
+
+	p90: number;
+
+	p99: number;
+
+	max: number;
+}
+
+/**
+ * The kind of a pool.
+ * - `default`: A pool created from the default configuration, keyed according to `scope` or `keyBy`.
+ * - `global`: The pool enforcing `globalLimit`.
+ * - Others: The pool of a rule configured with the corresponding scope, regex, pattern or custom matcher.
+ */
+export type PoolType = "default" | "global" | "domain" | "path" | "regex" | "pattern" | "custom";
+
+/**
+ * The state and metrics of a pool, e.g. to be rendered in a diagnostics panel.
+ */
+export interface PoolSnapshot extends ThrottleStats {
+	/**
+	 * The key of the pool, as in `ThrottleEvent.key`.
+	 */
+	key: string;
+
+	type: PoolType;
+
+	/**
+	 * The handle of the rule the pool belongs to, if any.
+	 */
+	rule?: ThrottleRule;
+
+	/**
+	 * Whether the pool no longer receives new requests, as its rule has been updated or removed,
+	 * but still has active or waiting requests.
+	 */
+	retired: boolean;
+
+	/**
+	 * The options the pool was created with, with the defaults filled in.
+	 */
+	config: Readonly<ThrottleConfig>;
+
+	/**
+	 * The concurrency currently enforced, which differs from `maxConcurrency` while the adaptive mode backs off.
+	 * `Infinity` if the concurrency is unlimited.
+	 */
+	effectiveConcurrency: number;
+
+	/**
+	 * The interval currently enforced, which differs from `interval` while the adaptive mode backs off.
+	 */
+	effectiveInterval: number;
+
+	/**
+	 * The number of requests resolved by the pool.
+	 */
+	succeeded: number;
+
+	/**
+	 * The number of requests rejected by the pool, including aborted and cleared ones.
+	 */
+	failed: number;
+
+	/**
+	 * The number of retries made by the pool.
+	 */
+	retried: number;
+
+	/**
+	 * The number of requests refused or dropped by the pool, see the `rejected` event.
+	 */
+	rejected: number;
+
+	/**
+	 * The durations of the recent attempts, or `undefined` if no attempt has completed yet.
+	 */
+	latency?: LatencyStats;
+}
+
+/**
+ * The lifecycle events of a throttled request.
+ * - `queued`: The request is added to the queue of a pool.
+ * - `started`: An attempt of the request is passed to the adapter.
+ * - `retried`: An attempt failed and the request will be retried, possibly after a delay.
+ * - `succeeded`: The request is resolved with a response.
+ * - `failed`: The request is rejected, e.g. because of an error, exhausted retries or an abort.
+ * - `rejected`: The request is refused or dropped because the queue of the pool is full,
+ *  or refused because the circuit breaker of the pool is open.
+ */
+export type ThrottleEventType = "queued" | "started" | "retried" | "succeeded" | "failed" | "rejected";
+
+/**
+ * A lifecycle event of a request in a `TaskPool`, i.e. a call of its task.
+ * @template TArgs The parameters of the task.
+ * @template TResult The result the task resolves with.
+ */
+export interface TaskEvent<TArgs extends unknown[] = unknown[], TResult = unknown> {
+	readonly type: ThrottleEventType;
+
+	/**
+	 * The key of the pool handling the request.
+	 */
+	readonly key: string;
+
+	/**
+	 * The parameters of the request.
+	 */
+	readonly params: TArgs;
+
+	/**
+	 * The 1-based number of the current attempt.
+	 */
+	readonly attempt: number;
+
+	/**
+	 * The time in milliseconds the current attempt waited in the queue before starting.
+	 */
+	readonly queueTime: number;
+
+	/**
+	 * The time in milliseconds since the request was added to the pool.
+	 */
+	readonly elapsed: number;
+
+	/**
+	 * The duration in milliseconds of the last completed attempt, if any.
+	 */
+	readonly latency?: number;
+
+	/**
+	 * The delay in milliseconds before the retry. Only available for `retried` events.
+	 */
+	readonly delay?: number;
+
+	/**
+	 * The result of the last completed attempt. Available for `retried` and `succeeded` events.
+	 */
+	readonly result?: TResult;
+
+	/**
+	 * The error causing the failure. Available for `retried` and `failed` events.
+	 */
+	readonly error?: unknown;
+}
+
+export type TaskEventListener<TArgs extends unknown[] = unknown[], TResult = unknown> = (event: TaskEvent<TArgs, TResult>) => void;
+
+export interface ThrottleEvent<T extends ExtendedFetch<any, any, any> = Fetch> extends TaskEvent<FetchParams<T>, FetchReturn<T>> {
+	/**
+	 * The key of the pool handling the request. For default pools, this is the host or the path of the request
+	 * depending on the scope, or an empty string for the global pool. For configured pools, this is the name of the rule.
+	 */
+	readonly key: string;
+
+	/**
+	 * The response of the last completed attempt, same as `result`. Available for `retried` and `succeeded` events.
+	 */
+	readonly response?: FetchReturn<T>;
 }
 
-export type SpecifiedThrottleConfig = DomainThrottleConfig | PathThrottleConfig | RegexThrottleConfig | CustomThrottleConfig;
\ No newline at end of file
+export type ThrottleEventListener<T extends ExtendedFetch<any, any, any> = Fetch> = (event: ThrottleEvent<T>) => void;
\ No newline at end of file
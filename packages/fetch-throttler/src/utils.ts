@@ -1,15 +1,327 @@
 import type { SetOptional } from "type-fest";
-import type { ThrottleConfig } from "./types";
+import type {
+	AdaptiveConfig, CircuitBreakerConfig, FetchParams, RequestDescriptor, RuleThrottleConfig, SpecifiedThrottleConfig, ThrottleConfig, ThrottleRuleDefinition
+} from "./types";
 
-export function fillDefaults(config: ThrottleConfig): SetOptional<Required<ThrottleConfig>, "shouldRetry"> {
+export function fillDefaults<TResult>(config: ThrottleConfig<TResult>): SetOptional<Required<ThrottleConfig<TResult>>, "shouldRetry"> {
 	const result = {
 		maxConcurrency: 0,
 		interval: 0,
+		rateLimits: [],
 		maxRetry: 1,
+		retryBackoff: "constant" as const,
+		retryDelay: 0,
+		maxRetryDelay: 0,
+		respectRetryAfter: true,
+		respectRateLimitHeaders: false,
 		capacity: 0,
+		overflow: "reject" as const,
+		priorityAging: 1000,
+		adaptive: false,
+		circuitBreaker: false,
+		timeout: 0,
+		deadline: 0,
+		cost: 1,
+		maxReplayBodySize: 1048576,
 		...config,
 	};
 	if (config.maxConcurrency === undefined && config.interval !== undefined)
 		result.maxConcurrency = 1;
 	return result;
+}
+
+/**
+ * Parses the value of a `Retry-After` header.
+ * @param now The current time in milliseconds since the Unix epoch, to which a date is relative.
+ * @returns The delay in milliseconds, or `undefined` if the value is absent or malformed.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+	if (!value)
+		return undefined;
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds))
+		return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Parses a list of the IETF rate limit headers into the parameters of its items, e.g. `"default";r=50;t=30`
+ * into `{ r: "50", t: "30" }`. Items of the older dictionary format, e.g. `limit=100, remaining=50, reset=30`,
+ * are merged into a single one.
+ */
+function parseRateLimitItems(value: string): Record<string, string>[] {
+	const items = value.split(",").map(item => {
+		const params: Record<string, string> = {};
+		for (const param of item.split(";")) {
+			const index = param.indexOf("=");
+			if (index > 0)
+				params[param.slice(0, index).trim().toLowerCase()] = param.slice(index + 1).trim();
+			else if (/^\s*\d+(?:\.\d+)?\s*$/.test(param))
+				params.q = param.trim(); // A bare quota of the older policy format, e.g. `100;w=60`
+		}
+		return params;
+	});
+	return items.some(item => "r" in item || "q" in item) ? items : [Object.assign({}, ...items)];
+}
+
+/**
+ * Parses the budget reported by the rate limit headers of a response, i.e. the IETF `RateLimit` and
+ * `RateLimit-Policy` headers, or the `X-RateLimit-Remaining` and `X-RateLimit-Reset` headers and their variants
+ * without the `X-` prefix. If several limits are reported, the one with the lowest remaining budget is used.
+ * @param now The current time in milliseconds since the Unix epoch, to which a reset time is relative.
+ * @returns The remaining budget and the time in milliseconds until it resets, or `undefined` if either is unknown.
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): { remaining: number; reset: number } | undefined {
+	let remaining: number | undefined;
+	let reset: number | undefined;
+	const ietf = headers.get("RateLimit");
+	if (ietf) {
+		for (const item of parseRateLimitItems(ietf)) {
+			const r = Number(item.r ?? item.remaining);
+			if (Number.isNaN(r) || remaining !== undefined && r >= remaining)
+				continue;
+			remaining = r;
+			const t = Number(item.t ?? item.reset);
+			reset = Number.isNaN(t) ? undefined : t * 1000;
+		}
+		// The window of the policy is the longest the budget may take to reset
+		const policy = headers.get("RateLimit-Policy");
+		if (remaining !== undefined && reset === undefined && policy) {
+			const windows = parseRateLimitItems(policy).map(item => Number(item.w)).filter(w => !Number.isNaN(w));
+			if (windows.length > 0)
+				reset = Math.max(...windows) * 1000;
+		}
+	}
+	else {
+		const r = headers.get("X-RateLimit-Remaining") ?? headers.get("RateLimit-Remaining");
+		const t = headers.get("X-RateLimit-Reset") ?? headers.get("RateLimit-Reset");
+		remaining = r ? Number(r) : undefined;
+		if (t) {
+			const value = Number(t);
+			// The reset is either a timestamp in seconds or milliseconds since the epoch, or a delay in seconds
+			if (value > 1e12)
+				reset = value - now;
+			else if (value > 1e9)
+				reset = value * 1000 - now;
+			else
+				reset = value * 1000;
+		}
+	}
+	if (remaining === undefined || reset === undefined || Number.isNaN(remaining) || Number.isNaN(reset))
+		return undefined;
+	return { remaining: Math.max(0, remaining), reset: Math.max(0, reset) };
+}
+
+export function fillAdaptiveDefaults(config: boolean | AdaptiveConfig): Required<AdaptiveConfig> | undefined {
+	if (config === false)
+		return undefined;
+	return {
+		minConcurrency: 1,
+		maxInterval: 10000,
+		decreaseFactor: 0.5,
+		increaseStep: 1,
+		intervalStep: 100,
+		latencyFactor: 3,
+		...config === true ? {} : config
+	};
+}
+
+export function fillCircuitBreakerDefaults(config: boolean | CircuitBreakerConfig): Required<CircuitBreakerConfig> | undefined {
+	if (config === false)
+		return undefined;
+	return {
+		failureThreshold: 5,
+		window: 10000,
+		cooldown: 30000,
+		...config === true ? {} : config
+	};
+}
+
+/**
+ * Checks whether the result of a request is a response with which the server signals throttling (429 or 503).
+ */
+export function isThrottlingResponse(result: unknown): result is Response {
+	return result instanceof Response && (result.status === 429 || result.status === 503);
+}
+
+/**
+ * Checks whether the error is caused by a timeout, e.g. of an attempt, a deadline or `AbortSignal.timeout`.
+ */
+export function isTimeoutError(error: unknown): error is DOMException {
+	return error instanceof DOMException && error.name === "TimeoutError";
+}
+
+/**
+ * Replaces the abort signal in the parameters of a fetch call.
+ */
+export function withSignal<T extends FetchParams<any>>(params: T, signal: AbortSignal): T {
+	const [input, init, ...extra] = params;
+	return [input, { ...init as RequestInit | undefined, signal }, ...extra] as T;
+}
+
+/**
+ * Gets the body of a fetch call if it can only be sent once, i.e. the body of a `Request` or a stream.
+ * Other bodies, e.g. strings, blobs and buffers, are read anew by each call.
+ */
+export function getOneShotBody(params: FetchParams<any>): ReadableStream<Uint8Array> | undefined {
+	const [input, init] = params as [RequestInfo | URL, RequestInit?, ...unknown[]];
+	if (init?.body !== undefined && init.body !== null)
+		return init.body instanceof ReadableStream ? init.body : undefined;
+	return input instanceof Request ? input.body ?? undefined : undefined;
+}
+
+/**
+ * Buffers a body that can only be sent once, so that it can be passed to fetch calls any number of times.
+ * @param limit The maximum size of the body to buffer in bytes.
+ * @returns The parameters to pass instead, and whether their body can be sent more than once. If the body exceeds
+ * the limit, it's passed as a stream of the chunks read so far followed by the rest of the body.
+ */
+export async function bufferBody<T extends FetchParams<any>>(params: T, body: ReadableStream<Uint8Array>, limit: number): Promise<[params: T, replayable: boolean]> {
+	if (limit <= 0)
+		return [params, false];
+	const [input, init, ...extra] = params;
+	const reader = body.getReader();
+	const chunks = new Array<Uint8Array>();
+	let size = 0;
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done)
+			break;
+		chunks.push(value);
+		size += value.byteLength;
+		if (size <= limit)
+			continue;
+		const stream = new ReadableStream<Uint8Array>({
+			start: controller => chunks.forEach(chunk => controller.enqueue(chunk)),
+			async pull(controller) {
+				const { done, value } = await reader.read();
+				if (done)
+					controller.close();
+				else
+					controller.enqueue(value);
+			},
+			cancel: reason => reader.cancel(reason)
+		});
+		// Streams can only be sent with half duplex
+		return [[input, { ...init as RequestInit | undefined, body: stream, duplex: "half" } as RequestInit, ...extra] as T, false];
+	}
+	const buffer = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		buffer.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	// The body given in the init replaces the consumed body of a `Request`
+	return [[input, { ...init as RequestInit | undefined, body: buffer }, ...extra] as T, true];
+}
+
+/**
+ * Creates a function calling `invoke` of the instance, which otherwise acts as the instance itself,
+ * e.g. its properties and methods can be accessed through the function.
+ */
+export function createCallable<T extends { invoke(...args: any[]): unknown }>(inst: T): T & T["invoke"] {
+	const func = () => { };
+	const proxy = new Proxy(func, {
+		apply: (_, __, args) => inst.invoke(...args),
+		get: (_, prop) => Reflect.get(inst, prop),
+		set: (_, prop, value) => Reflect.set(inst, prop, value),
+		has: (_, prop) => Reflect.has(inst, prop),
+		getOwnPropertyDescriptor: (_, prop) => Reflect.getOwnPropertyDescriptor(inst, prop),
+		getPrototypeOf: () => Reflect.getPrototypeOf(inst),
+		isExtensible: () => Reflect.isExtensible(inst),
+		preventExtensions: () => Reflect.preventExtensions(inst),
+		ownKeys: () => Reflect.ownKeys(inst)
+	});
+	return proxy as unknown as T & T["invoke"];
+}
+
+/**
+ * Compiles a glob pattern of a `PatternThrottleConfig` into a regular expression testing the full URL string.
+ */
+export function compilePattern(pattern: string): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; ++i) {
+		const char = pattern[i];
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				source += ".*";
+				++i;
+			}
+			else
+				source += "[^/]*";
+		}
+		else if (char === "?")
+			source += "[^/]";
+		else if (char === ":" && /[A-Za-z_]/.test(pattern[i + 1] ?? "")) {
+			while (/\w/.test(pattern[i + 1] ?? ""))
+				++i;
+			source += "[^/]+";
+		}
+		else
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+	}
+	const protocol = /^[A-Za-z][\w+.-]*:\/\//.exec(pattern)?.[0];
+	// The path of a URL string is at least `/`. It's looked for in the pattern, as wildcards expand to `[^/]`
+	if (!pattern.includes("/", protocol?.length))
+		source += "/";
+	if (source.endsWith("/.*"))
+		source = source.slice(0, -3) + "(?:/.*)?";
+	return new RegExp(`^${protocol ? "" : "[^:/]+://"}${source}(?:[?#].*)?$`);
+}
+
+/**
+ * Converts a rule definition into the config accepted by `ThrottledFetch.configure`.
+ * @throws {TypeError} If the definition is invalid.
+ */
+export function parseRuleDefinition(definition: ThrottleRuleDefinition): SpecifiedThrottleConfig {
+	if (typeof definition !== "object" || definition === null)
+		throw new TypeError(`Invalid rule definition: ${definition}`);
+	if ("regex" in definition) {
+		const { regex, flags, ...config } = definition;
+		if (typeof regex !== "string")
+			throw new TypeError(`Invalid regex: ${regex}`);
+		try {
+			return { ...config, regex: new RegExp(regex, flags) };
+		}
+		catch (error) {
+			throw new TypeError(`Invalid regex: ${regex}`, { cause: error });
+		}
+	}
+	if ("pattern" in definition) {
+		if (typeof definition.pattern !== "string")
+			throw new TypeError(`Invalid pattern: ${definition.pattern}`);
+		return definition;
+	}
+	if ("scope" in definition)
+		return definition;
+	throw new TypeError(`Invalid rule definition: ${JSON.stringify(definition)}`);
+}
+
+/**
+ * Creates a function checking whether a request satisfies the `methods` and `headers` of a rule.
+ * @returns `undefined` if the rule accepts any request.
+ * @throws {TypeError} If the criteria are invalid.
+ */
+export function createRequestFilter(config: RuleThrottleConfig): ((request: RequestDescriptor) => boolean) | undefined {
+	const { methods, headers } = config;
+	if (methods === undefined && headers === undefined)
+		return undefined;
+	const methodSet = methods === undefined ? undefined : new Set((Array.isArray(methods) ? methods : [methods]).map(m => {
+		if (typeof m !== "string")
+			throw new TypeError(`Invalid method: ${m}`);
+		return m.toUpperCase();
+	}));
+	const headerEntries = Object.entries(headers ?? {}).map(([name, value]) => {
+		if (typeof value !== "string" && typeof value !== "boolean")
+			throw new TypeError(`Invalid value of header ${name}: ${value}`);
+		return [name, value] as const;
+	});
+	return request => {
+		if (methodSet && !methodSet.has(request.method))
+			return false;
+		return headerEntries.every(([name, value]) => typeof value === "boolean"
+			? request.headers.has(name) === value
+			: request.headers.get(name) === value);
+	};
 }
\ No newline at end of file
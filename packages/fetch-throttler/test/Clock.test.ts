@@ -0,0 +1,116 @@
+import { CircuitOpenError } from "../src/CircuitBreaker";
+import { VirtualClock } from "../src/Clock";
+import { createThrottledFetch } from "../src/ThrottledFetch";
+import type { DefaultThrottleConfig } from "../src/types";
+
+interface TestResp {
+	id: number;
+	start: number;
+	end: number;
+}
+
+describe("Virtual Clock", () => {
+	const testUrl = "https://example.com";
+	const latency = 100;
+
+	/**
+	 * Creates a throttled fetch whose adapter takes `latency` of virtual time.
+	 */
+	function fixture(config?: Omit<DefaultThrottleConfig, "clock">, response?: () => ResponseInit) {
+		const clock = new VirtualClock();
+		let id = 0;
+		const fetch = createThrottledFetch({ ...config, clock }, async (_input: RequestInfo | URL, _init?: RequestInit) => {
+			const start = clock.now();
+			const requestId = id++;
+			await clock.sleep(latency);
+			return new Response(JSON.stringify({ id: requestId, start, end: clock.now() }), response?.());
+		});
+		return { clock, fetch };
+	}
+
+	test("Fires timers in order", async () => {
+		const clock = new VirtualClock(1000);
+		const fired = new Array<string>();
+		clock.setTimeout(() => fired.push("b"), 20);
+		clock.setTimeout(() => fired.push("a"), 10);
+		const timer = clock.setTimeout(() => fired.push("cancelled"), 10);
+		clock.setTimeout(() => {
+			fired.push("c");
+			clock.setTimeout(() => fired.push("d"), 5);
+		}, 20);
+		clock.clearTimeout(timer);
+		await clock.advance(15);
+		expect(fired).toEqual(["a"]);
+		expect(clock.now()).toBe(15);
+		expect(clock.date()).toBe(1015);
+		await clock.advance(10);
+		expect(fired).toEqual(["a", "b", "c", "d"]);
+		expect(clock.now()).toBe(25);
+		expect(clock.pending).toBe(0);
+	});
+
+	test("Throttles in virtual time", async () => {
+		const { clock, fetch } = fixture({ maxConcurrency: 2, interval: 1000 });
+		const promises = new Array<Promise<TestResp>>();
+		for (let i = 0; i < 3; ++i)
+			promises.push(fetch(testUrl).then(resp => resp.json()));
+		await clock.runAll();
+		const resps = await Promise.all(promises);
+		expect(resps.map(r => r.start)).toEqual([0, 0, 1000]);
+		expect(clock.now()).toBe(1000 + latency);
+	});
+
+	test("Retries after delays", async () => {
+		let status = 503;
+		const { clock, fetch } = fixture({ maxRetry: 1 }, () => ({ status, headers: { "Retry-After": new Date(5000).toUTCString() } }));
+		const promise = fetch(testUrl).then(resp => resp.json() as Promise<TestResp>);
+		await clock.advance(latency);
+		status = 200;
+		await clock.advance(4999 - latency);
+		expect(fetch.stats(testUrl)).toMatchObject({ active: 0, waiting: 1 });
+		await clock.runAll();
+		await expect(promise).resolves.toMatchObject({ id: 1, start: 5000 });
+	});
+
+	test("Jitters retries reproducibly", async () => {
+		const retryDelay = 1000;
+		const retryStart = async () => {
+			const { clock, fetch } = fixture({ maxRetry: 1, retryDelay, retryBackoff: "exponential-jitter" }, () => ({ status: 503 }));
+			const promise = fetch(testUrl).then(resp => resp.json() as Promise<TestResp>);
+			await clock.runAll();
+			return (await promise).start;
+		};
+		const start = await retryStart();
+		expect(start).toBeGreaterThanOrEqual(latency);
+		expect(start).toBeLessThan(latency + retryDelay);
+		expect(await retryStart()).toBe(start);
+		const random = (seed: number) => {
+			const clock = new VirtualClock(0, seed);
+			return [clock.random(), clock.random()];
+		};
+		expect(random(1)).toEqual(random(1));
+		expect(random(1)).not.toEqual(random(2));
+	});
+
+	test("Times out attempts", async () => {
+		const { clock, fetch } = fixture({ maxRetry: 0, timeout: latency / 2 });
+		// Handles the rejection before it happens while advancing
+		const assertion = expect(fetch(testUrl)).rejects.toMatchObject({ name: "TimeoutError" });
+		await clock.advance(latency / 2);
+		await assertion;
+		expect(fetch.snapshot()[0].latency).toMatchObject({ max: latency / 2 });
+	});
+
+	test("Cools down the circuit breaker", async () => {
+		const cooldown = 30000;
+		const { clock, fetch } = fixture({ maxRetry: 0, circuitBreaker: { failureThreshold: 1, cooldown } }, () => ({ status: 500 }));
+		const first = fetch(testUrl);
+		await clock.runAll();
+		await first;
+		await expect(fetch(testUrl)).rejects.toMatchObject({ retryAfter: cooldown });
+		await clock.advance(cooldown - 1);
+		await expect(fetch(testUrl)).rejects.toBeInstanceOf(CircuitOpenError);
+		await clock.advance(1);
+		expect(fetch.stats(testUrl)).toMatchObject({ circuit: "half-open" });
+	});
+});
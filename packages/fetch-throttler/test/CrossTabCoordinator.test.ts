@@ -0,0 +1,100 @@
+import { CrossTabCoordinator } from "../src/CrossTabCoordinator";
+import { createThrottledFetch } from "../src/ThrottledFetch";
+import type { DefaultThrottleConfig } from "../src/types";
+import { TestAdapter } from "./TestAdapter";
+
+interface TestResp {
+	id: number;
+	start: number;
+	end: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("Cross-Tab Coordinator", () => {
+	const testUrl = "https://example.com";
+	const latency = 100;
+	const timeMargin = 20;
+	let channelId = 0;
+
+	/**
+	 * Creates two throttled fetches acting as if they were in different tabs.
+	 */
+	function fixture(config: DefaultThrottleConfig) {
+		const name = `test-${channelId++}`;
+		const coordinators = [new CrossTabCoordinator(name), new CrossTabCoordinator(name)];
+		const fetches = coordinators.map(coordinator => {
+			const adapter = new TestAdapter(latency);
+			return createThrottledFetch({ ...config, coordinator }, adapter.fetch);
+		});
+		return {
+			fetches,
+			close: () => coordinators.forEach(c => c.close())
+		};
+	}
+
+	test("Shares concurrency", async () => {
+		const { fetches: [first, second], close } = fixture({ maxConcurrency: 1 });
+		const a = first(testUrl).then(resp => resp.json() as Promise<TestResp>);
+		await sleep(timeMargin);
+		expect(second.stats(testUrl)).toMatchObject({ active: 0 });
+		const b = second(testUrl).then(resp => resp.json() as Promise<TestResp>);
+		await sleep(timeMargin);
+		expect(second.stats(testUrl)).toMatchObject({ active: 0, waiting: 1 });
+		const [respA, respB] = await Promise.all([a, b]);
+		expect(respB.start - respA.start).toBeGreaterThanOrEqual(latency);
+		close();
+	});
+
+	test("Shares rate limits", async () => {
+		const window = 300;
+		const { fetches: [first, second], close } = fixture({ rateLimits: { type: "sliding-window", limit: 1, window } });
+		const start = performance.now();
+		await first(testUrl);
+		await second(testUrl);
+		expect(performance.now() - start).toBeGreaterThanOrEqual(window);
+		close();
+	});
+
+	test("Ignores other keys", async () => {
+		const { fetches: [first, second], close } = fixture({ maxConcurrency: 1, scope: "domain" });
+		const a = first(testUrl).then(resp => resp.json() as Promise<TestResp>);
+		await sleep(timeMargin);
+		const b = second("https://example.org").then(resp => resp.json() as Promise<TestResp>);
+		const [respA, respB] = await Promise.all([a, b]);
+		expect(respB.start - respA.start).toBeLessThan(latency);
+		close();
+	});
+
+	test("Releases slots of closed contexts", async () => {
+		const name = `test-${channelId++}`;
+		const coordinators = [new CrossTabCoordinator(name), new CrossTabCoordinator(name)];
+		const [first, second] = coordinators.map((coordinator, i) =>
+			createThrottledFetch({ maxConcurrency: 1, coordinator }, new TestAdapter(i === 0 ? latency * 10 : latency).fetch)
+		);
+		void first(testUrl).catch(() => { });
+		await sleep(timeMargin);
+		const start = performance.now();
+		const promise = second(testUrl);
+		await sleep(timeMargin);
+		coordinators[0].close();
+		await promise;
+		expect(performance.now() - start).toBeLessThan(latency * 2 + timeMargin);
+		coordinators[1].close();
+	});
+
+	test("Falls back to local state", () => {
+		const { BroadcastChannel } = globalThis;
+		// @ts-expect-error simulating an environment without `BroadcastChannel`
+		delete globalThis.BroadcastChannel;
+		try {
+			const coordinator = new CrossTabCoordinator();
+			expect(coordinator.shared).toBe(false);
+			expect(coordinator.join("example.com")).toBeUndefined();
+			coordinator.close();
+		}
+		finally {
+			globalThis.BroadcastChannel = BroadcastChannel;
+		}
+	});
+});
@@ -0,0 +1,157 @@
+import type { IndexedDatabase } from "browser-utilities";
+import { OfflineQueue, type OfflineRecord } from "../src/OfflineQueue";
+import { createThrottledFetch } from "../src/ThrottledFetch";
+
+class MemoryStore {
+	readonly records = new Map<number, OfflineRecord>();
+
+	private _nextId = 1;
+
+	async add(record: OfflineRecord): Promise<number> {
+		const id = this._nextId++;
+		this.records.set(id, structuredClone({ ...record, id }));
+		return id;
+	}
+
+	async put(record: OfflineRecord): Promise<number> {
+		this.records.set(record.id!, structuredClone(record));
+		return record.id!;
+	}
+
+	async getAll(_?: unknown, count?: number): Promise<OfflineRecord[]> {
+		const records = Array.from(this.records.values()).sort((a, b) => a.id! - b.id!);
+		return records.slice(0, count).map(r => structuredClone(r));
+	}
+
+	async delete(id: number): Promise<void> {
+		this.records.delete(id);
+	}
+}
+
+describe("Offline Queue", () => {
+	const testUrl = "https://example.com/submit";
+
+	function fixture() {
+		const store = new MemoryStore();
+		const database = { stores: { getOrCreate: async () => store } } as unknown as IndexedDatabase;
+		const received = new Array<string>();
+		let failing = false;
+		const fetch = createThrottledFetch({ maxRetry: 0 }, async (input: RequestInfo | URL, init?: RequestInit) => {
+			if (failing)
+				throw new TypeError("Failed to fetch");
+			const request = new Request(input, init);
+			const body = await request.text();
+			received.push(`${request.method} ${body}`);
+			return new Response(body);
+		});
+		return {
+			store,
+			received,
+			fetch,
+			open: (options?: Parameters<typeof OfflineQueue.open>[2]) => OfflineQueue.open(fetch, database, options),
+			setFailing: (value: boolean) => failing = value
+		};
+	}
+
+	test("Stores requests until they are sent", async () => {
+		const { store, received, open } = fixture();
+		const queue = await open();
+		const promise = queue.fetch(testUrl, { method: "POST", body: "a" });
+		await expect(promise.then(resp => resp.text())).resolves.toBe("a");
+		await expect(queue.fetch(testUrl).then(resp => resp.text())).resolves.toBe("");
+		expect(received).toEqual(["POST a", "GET "]);
+		expect(store.records.size).toBe(0);
+		queue.close();
+	});
+
+	test("Keeps requests failing because of the network", async () => {
+		const { store, received, open, setFailing } = fixture();
+		const queue = await open();
+		setFailing(true);
+		const first = queue.fetch(testUrl, { method: "POST", body: "1" });
+		const second = queue.fetch(testUrl, { method: "PUT", body: "2" });
+		await queue.flush();
+		expect(Array.from(store.records.values()).map(r => [r.method, r.retried])).toEqual([["POST", 1], ["PUT", 0]]);
+		setFailing(false);
+		await queue.flush();
+		await expect(Promise.all([first, second]).then(resps => Promise.all(resps.map(r => r.text())))).resolves.toEqual(["1", "2"]);
+		expect(received).toEqual(["POST 1", "PUT 2"]);
+		expect(store.records.size).toBe(0);
+		queue.close();
+	});
+
+	test("Replays requests of previous sessions", async () => {
+		const { store, received, fetch, open, setFailing } = fixture();
+		const previous = await open();
+		setFailing(true);
+		void previous.fetch(testUrl, { method: "DELETE" });
+		void previous.fetch(testUrl, { method: "POST", body: "data" });
+		await previous.flush();
+		previous.close();
+		setFailing(false);
+		const attempts = new Array<number>();
+		fetch.on("started", e => attempts.push(e.attempt));
+		const replayed = new Array<string>();
+		const queue = await open({
+			onReplayed: (request, result) => replayed.push(`${request.method} ${result.status}`)
+		});
+		await queue.flush();
+		expect(received).toEqual(["DELETE ", "POST data"]);
+		expect(replayed).toEqual(["DELETE fulfilled", "POST fulfilled"]);
+		expect(attempts).toEqual([2, 1]);
+		expect(store.records.size).toBe(0);
+		queue.close();
+	});
+
+	test("Removes aborted requests", async () => {
+		const { store, received, open, setFailing } = fixture();
+		const queue = await open();
+		setFailing(true);
+		const controller = new AbortController();
+		const promise = queue.fetch(testUrl, { method: "POST", body: "x", signal: controller.signal });
+		await queue.flush();
+		controller.abort();
+		await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+		expect(store.records.size).toBe(0);
+		setFailing(false);
+		await queue.flush();
+		expect(received).toEqual([]);
+		queue.close();
+	});
+
+	test("Rejects callers when the store fails", async () => {
+		const { store, received, open } = fixture();
+		const queue = await open();
+		jest.spyOn(store, "getAll").mockRejectedValueOnce(new Error("Read failed"));
+		await expect(queue.fetch(testUrl, { method: "POST", body: "1" })).rejects.toThrow("Read failed");
+		expect(store.records.size).toBe(1);
+		await queue.flush();
+		expect(received).toEqual(["POST 1"]);
+		expect(store.records.size).toBe(0);
+		// A sent request settles its caller even if its record can't be deleted, and isn't sent again
+		jest.spyOn(store, "delete").mockRejectedValueOnce(new Error("Delete failed"));
+		await expect(queue.fetch(testUrl, { method: "POST", body: "2" }).then(resp => resp.text())).resolves.toBe("2");
+		expect(store.records.size).toBe(1);
+		await expect(queue.fetch(testUrl, { method: "POST", body: "3" }).then(resp => resp.text())).resolves.toBe("3");
+		expect(received).toEqual(["POST 1", "POST 2", "POST 3"]);
+		queue.close();
+	});
+
+	test("Skips aborted requests being deleted", async () => {
+		const { store, received, open } = fixture();
+		const queue = await open();
+		let release!: () => void;
+		const deleted = new Promise<void>(resolve => release = resolve);
+		jest.spyOn(store, "delete").mockImplementationOnce(id => deleted.then(() => void store.records.delete(id)));
+		const controller = new AbortController();
+		const promise = queue.fetch(testUrl, { method: "POST", body: "x", signal: controller.signal });
+		controller.abort();
+		await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+		await queue.flush();
+		expect(received).toEqual([]);
+		release();
+		await deleted;
+		expect(store.records.size).toBe(0);
+		queue.close();
+	});
+});
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { createTaskThrottler } from "../src/TaskThrottler";
+import type { TaskEvent, ThrottleEventType } from "../src/types";
+
+interface TaskResult {
+	id: number;
+	key: string;
+	start: number;
+	end: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("Task Throttler", () => {
+	const latency = 100;
+	const timeMargin = 20;
+
+	/**
+	 * Creates a task which resolves with its start and end times after `latency`.
+	 */
+	function createTask() {
+		let id = 0;
+		return async (key: string, value?: number): Promise<TaskResult & { value?: number }> => {
+			const current = id++;
+			const start = performance.now();
+			await sleep(latency);
+			return { id: current, key, start, end: performance.now(), value };
+		};
+	}
+
+	test("Limits concurrency per key", async () => {
+		const throttled = createTaskThrottler(createTask(), { maxConcurrency: 1 }, { key: key => key });
+		const results = await Promise.all([throttled("a"), throttled("a"), throttled("b")]);
+		expect(results[1].start - results[0].start).toBeGreaterThanOrEqual(latency - 1);
+		expect(results[2].start - results[0].start).toBeLessThan(timeMargin);
+		expect(throttled.stats("a")).toEqual({ completed: 2, active: 0, waiting: 0 });
+	});
+
+	test("Retries", async () => {
+		let calls = 0;
+		const throttled = createTaskThrottler(async () => {
+			if (++calls === 1)
+				throw new Error("Failed");
+			return calls;
+		}, { maxRetry: 2, shouldRetry: errOrRes => errOrRes instanceof Error });
+		await expect(throttled()).resolves.toBe(2);
+		// Errors are not retried by default, and results are successes
+		calls = 0;
+		const plain = createTaskThrottler(async () => {
+			if (++calls === 1)
+				throw new Error("Failed");
+			return calls;
+		}, { maxRetry: 2 });
+		await expect(plain()).rejects.toThrow("Failed");
+		await expect(plain()).resolves.toBe(2);
+	});
+
+	test("Retries results", async () => {
+		let calls = 0;
+		const throttled = createTaskThrottler(async () => ++calls, { maxRetry: 3, shouldRetry: result => result !== 3 });
+		await expect(throttled()).resolves.toBe(3);
+	});
+
+	test("Per-call options", async () => {
+		const throttled = createTaskThrottler(createTask(), { maxConcurrency: 1 });
+		const first = throttled("first");
+		const low = throttled.schedule(["low"]);
+		const high = throttled.schedule(["high"], { priority: 1 });
+		const controller = new AbortController();
+		const aborted = throttled.schedule(["aborted"], { signal: controller.signal });
+		controller.abort();
+		await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+		const results = await Promise.all([first, low, high]);
+		expect(results[2].start).toBeLessThan(results[1].start);
+	});
+
+	test("Times out tasks ignoring signals", async () => {
+		const throttled = createTaskThrottler(createTask(), { timeout: latency / 2, maxRetry: 0 });
+		await expect(throttled("timeout")).rejects.toMatchObject({ name: "TimeoutError" });
+		expect(throttled.stats()).toMatchObject({ active: 0 });
+	});
+
+	test("Circuit breaker counts errors only", async () => {
+		let fail = false;
+		const throttled = createTaskThrottler(async () => {
+			if (fail)
+				throw new Error("Failed");
+			return { status: 500 };
+		}, { circuitBreaker: { failureThreshold: 1 } });
+		await throttled();
+		expect(throttled.stats()).toMatchObject({ circuit: "closed" });
+		fail = true;
+		await expect(throttled()).rejects.toThrow("Failed");
+		expect(throttled.stats()).toMatchObject({ circuit: "open" });
+	});
+
+	test("Synchronous errors", async () => {
+		const throttled = createTaskThrottler((): Promise<void> => {
+			throw new Error("Thrown");
+		});
+		await expect(throttled()).rejects.toThrow("Thrown");
+		expect(throttled.stats()).toEqual({ completed: 1, active: 0, waiting: 0 });
+	});
+
+	test("Configure keys", async () => {
+		const throttled = createTaskThrottler(createTask(), { maxConcurrency: 1 }, { key: key => key });
+		const promises = [throttled("a"), throttled("a"), throttled("a")];
+		await sleep(timeMargin);
+		throttled.configure("a", { maxConcurrency: 2 });
+		const results = await Promise.all(promises);
+		// The waiting calls move to the new pool, which starts both of them at once without waiting for the active one
+		expect(results[2].start - results[1].start).toBeLessThan(timeMargin);
+		expect(results[1].start - results[0].start).toBeLessThan(latency);
+		await throttled.idle();
+		expect(throttled.stats("a")).toMatchObject({ completed: 2, active: 0, waiting: 0 });
+	});
+
+	test("Flow control and events", async () => {
+		const throttled = createTaskThrottler(createTask(), undefined, { key: key => key });
+		const events = new Array<TaskEvent<[string, number?], TaskResult>>();
+		const types: ThrottleEventType[] = ["queued", "started", "succeeded", "failed"];
+		types.forEach(type => throttled.on(type, e => events.push(e)));
+		throttled.pause();
+		const promise = throttled("a", 1);
+		await sleep(timeMargin);
+		expect(throttled.stats("a")).toMatchObject({ active: 0, waiting: 1 });
+		const cleared = throttled("b");
+		expect(throttled.clear()).toBe(2);
+		await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+		await expect(cleared).rejects.toMatchObject({ name: "AbortError" });
+		throttled.resume();
+		await throttled("a", 2);
+		expect(events.map(e => [e.type, e.key])).toEqual([
+			["queued", "a"], ["queued", "b"], ["failed", "a"], ["failed", "b"],
+			["queued", "a"], ["started", "a"], ["succeeded", "a"]
+		]);
+		expect(events.at(-1)).toMatchObject({ params: ["a", 2], result: { key: "a", value: 2 } });
+	});
+});
@@ -15,12 +15,18 @@ export class TestAdapter {
 		const id = this.requestId++;
 		const init = { ...this.responseInit };
 		const start = performance.now();
-		return new Promise(resolve => setTimeout(() => {
-			const end = performance.now();
-			const json = JSON.stringify({ id, start, end });
-			const resp = new Response(json, init);
-			resolve(resp);
-		}, this.responseDelay));
+		return new Promise(resolve => {
+			const respond = () => {
+				const end = performance.now();
+				// Timers may fire slightly early, as they are scheduled with a coarser clock
+				if (end - start < this.responseDelay)
+					return setTimeout(respond, 1);
+				const json = JSON.stringify({ id, start, end });
+				const resp = new Response(json, init);
+				resolve(resp);
+			};
+			setTimeout(respond, this.responseDelay);
+		});
 	}
 
 	public get fetch(): typeof globalThis.fetch {
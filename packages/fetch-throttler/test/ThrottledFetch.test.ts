@@ -1,5 +1,6 @@
+import { CircuitOpenError } from "../src/CircuitBreaker";
 import { createThrottledFetch } from "../src/ThrottledFetch";
-import type { DefaultThrottleConfig, Fetch } from "../src/types";
+import type { DefaultThrottleConfig, ExtendedFetch, Fetch, ThrottleEvent, ThrottleEventType } from "../src/types";
 import { TestAdapter } from "./TestAdapter";
 
 interface TestResp {
@@ -62,6 +63,81 @@ describe("Fetch Throttler", () => {
 		expect(resps[2].start - resps[0].start).toBeGreaterThanOrEqual(interval);
 	});
 
+	describe("Config: rateLimits", () => {
+		test("Sliding window", async () => {
+			const window = 300;
+			const fetch = fixture({ rateLimits: { type: "sliding-window", limit: 2, window } });
+			const promises = new Array<Promise<TestResp>>();
+			for (let i = 0; i < 3; ++i)
+				promises.push(fetch(testUrl).then(resp => resp.json()));
+			const resps = await Promise.all(promises);
+			expect(resps[1].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(resps[2].start - resps[0].start).toBeGreaterThanOrEqual(window - 1);
+		});
+
+		test("Token bucket", async () => {
+			const fetch = fixture({ rateLimits: { type: "token-bucket", rate: 2, period: 200, burst: 2 } });
+			const promises = new Array<Promise<TestResp>>();
+			for (let i = 0; i < 4; ++i)
+				promises.push(fetch(testUrl).then(resp => resp.json()));
+			const resps = await Promise.all(promises);
+			expect(resps[1].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(resps[2].start - resps[0].start).toBeGreaterThanOrEqual(100 - 1);
+			expect(resps[3].start - resps[0].start).toBeGreaterThanOrEqual(200 - 1);
+		});
+
+		test("Stacked limits", async () => {
+			const fetch = fixture({
+				rateLimits: [
+					{ type: "token-bucket", rate: 1, period: 100, burst: 1 },
+					{ type: "sliding-window", limit: 3, window: 600 }
+				]
+			});
+			const promises = new Array<Promise<TestResp>>();
+			for (let i = 0; i < 4; ++i)
+				promises.push(fetch(testUrl).then(resp => resp.json()));
+			const resps = await Promise.all(promises);
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(100 - 1);
+			expect(resps[2].start - resps[1].start).toBeGreaterThanOrEqual(100 - 1);
+			expect(resps[3].start - resps[0].start).toBeGreaterThanOrEqual(600 - 1);
+		});
+
+		test("Weighted costs", async () => {
+			const window = 300;
+			const fetch = fixture({ rateLimits: { type: "sliding-window", limit: 10, window } });
+			fetch.configure({ scope: "path", url: `${testUrl}/search`, cost: 6, rateLimits: { type: "sliding-window", limit: 10, window } });
+			const read = (cost?: number) => fetch(`${testUrl}/items`, { throttle: { cost } }).then(resp => resp.json() as Promise<TestResp>);
+			const search = () => fetch(`${testUrl}/search`).then(resp => resp.json() as Promise<TestResp>);
+			const reads = await Promise.all([read(), read(9), read()]);
+			expect(reads[1].start - reads[0].start).toBeLessThan(timeMargin);
+			expect(reads[2].start - reads[0].start).toBeGreaterThanOrEqual(window - 1);
+			const searches = await Promise.all([search(), search()]);
+			expect(searches[1].start - searches[0].start).toBeGreaterThanOrEqual(window - 1);
+		});
+
+		test("Costs exceeding the limit", async () => {
+			const fetch = fixture({ rateLimits: { type: "token-bucket", rate: 2, period: 200 } });
+			const promises = [1, 100, 1].map(cost => fetch(testUrl, { throttle: { cost } }).then(resp => resp.json() as Promise<TestResp>));
+			const resps = await Promise.all(promises);
+			// The expensive request waits for a full bucket and empties it
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(100 - 1);
+			expect(resps[2].start - resps[1].start).toBeGreaterThanOrEqual(100 - 1);
+		});
+
+		test("Invalid limits", () => {
+			const fetch = fixture();
+			expect(() => fetch.configure({
+				regex: /^https:\/\/api\./,
+				rateLimits: { type: "sliding-window", limit: 0, window: 1000 }
+			})).toThrow(RangeError);
+			expect(() => fetch.configure({
+				regex: /^https:\/\/api\./,
+				// @ts-expect-error Testing runtime validation
+				rateLimits: { type: "fixed-window" }
+			})).toThrow(TypeError);
+		});
+	});
+
 	describe("Config: shouldRetry", () => {
 		// Test 1: shouldRetry returns true - should retry regardless of response status
 		test("Returns true", async () => {
@@ -130,16 +206,871 @@ describe("Fetch Throttler", () => {
 			expect(json.id).toBe(1);
 		});
 
-		// Test 5: Verify response body can't be consumed if not cloned in shouldRetry
-		test("Response body can't be consumed if not cloned", async () => {
-			const cloneFetch = fixture({
-				shouldRetry(errOrRes) {
+		// Test 5: Verify response body can still be consumed after being read in shouldRetry
+		test("Response body can be read", async () => {
+			const ids = new Array<number>();
+			const readFetch = fixture({
+				maxRetry: 1,
+				async shouldRetry(errOrRes) {
 					if (errOrRes instanceof Response)
-						return errOrRes.json().then(() => undefined);
+						ids.push((await errOrRes.json()).id);
+				}
+			}, { status: 500 });
+			const resp = await readFetch(testUrl, {
+				throttle: {
+					shouldRetry: async errOrRes => errOrRes instanceof Response ? void await errOrRes.text() : undefined
+				}
+			});
+			expect(ids).toEqual([0, 1]);
+			await expect(resp.json()).resolves.toMatchObject({ id: 1 });
+		});
+	});
+
+	describe("Config: adaptive", () => {
+		const delay = 50;
+
+		async function batch(fetch: (url: string) => Promise<Response>, count: number) {
+			const promises = new Array<Promise<TestResp>>();
+			for (let i = 0; i < count; ++i)
+				promises.push(fetch(testUrl).then(resp => resp.json()));
+			return Promise.all(promises);
+		}
+
+		test("Backs off on throttling responses", async () => {
+			const adapter = new TestAdapter(delay, { status: 429 });
+			const fetch = createThrottledFetch({ maxConcurrency: 4, maxRetry: 0, adaptive: true }, adapter.fetch);
+			await batch(fetch, 4);
+			adapter.responseInit = { status: 200 };
+			const resps = await batch(fetch, 3);
+			expect(resps[1].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(resps[2].start - resps[0].start).toBeGreaterThanOrEqual(delay - 1);
+		});
+
+		test("Recovers while healthy", async () => {
+			const adapter = new TestAdapter(delay, { status: 503 });
+			const fetch = createThrottledFetch({ maxConcurrency: 4, maxRetry: 0, adaptive: { latencyFactor: 0 } }, adapter.fetch);
+			await batch(fetch, 4);
+			adapter.responseInit = { status: 200 };
+			await batch(fetch, 12);
+			const resps = await batch(fetch, 4);
+			expect(resps[3].start - resps[0].start).toBeLessThan(timeMargin);
+		});
+
+		test("Disabled by default", async () => {
+			const adapter = new TestAdapter(delay, { status: 429 });
+			const fetch = createThrottledFetch({ maxConcurrency: 4, maxRetry: 0 }, adapter.fetch);
+			await batch(fetch, 4);
+			const resps = await batch(fetch, 4);
+			expect(resps[3].start - resps[0].start).toBeLessThan(timeMargin);
+		});
+	});
+
+	describe("Config: circuitBreaker", () => {
+		const delay = 20;
+		const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+		test("Opens after consecutive failures", async () => {
+			const adapter = new TestAdapter(delay, { status: 500 });
+			const fetch = createThrottledFetch({ maxRetry: 0, circuitBreaker: { failureThreshold: 2 } }, adapter.fetch);
+			await fetch(testUrl);
+			expect(fetch.stats(testUrl)).toMatchObject({ circuit: "closed" });
+			await fetch(testUrl);
+			expect(fetch.stats(testUrl)).toMatchObject({ circuit: "open" });
+			const rejected = new Array<string>();
+			fetch.on("rejected", e => rejected.push(e.key));
+			const start = performance.now();
+			await expect(fetch(testUrl)).rejects.toBeInstanceOf(CircuitOpenError);
+			expect(performance.now() - start).toBeLessThan(delay);
+			expect(rejected).toEqual([""]);
+			expect(fetch.stats(testUrl)).toMatchObject({ completed: 2, waiting: 0 });
+		});
+
+		test("Successes reset the failures", async () => {
+			const adapter = new TestAdapter(delay, { status: 503 });
+			const fetch = createThrottledFetch({ maxRetry: 0, circuitBreaker: { failureThreshold: 2 } }, adapter.fetch);
+			await fetch(testUrl);
+			adapter.responseInit = { status: 404 };
+			await fetch(testUrl);
+			adapter.responseInit = { status: 503 };
+			await fetch(testUrl);
+			expect(fetch.stats(testUrl)).toMatchObject({ circuit: "closed" });
+		});
+
+		test("Rejects waiting requests and retries", async () => {
+			const adapter = new TestAdapter(delay, { status: 500 });
+			const fetch = createThrottledFetch({ maxConcurrency: 1, circuitBreaker: { failureThreshold: 1 } }, adapter.fetch);
+			const first = fetch(testUrl);
+			const second = fetch(testUrl);
+			await expect(first).rejects.toBeInstanceOf(CircuitOpenError);
+			await expect(second).rejects.toMatchObject({ name: "CircuitOpenError", retryAfter: expect.any(Number) });
+			expect(fetch.stats(testUrl)).toMatchObject({ completed: 1, waiting: 0, circuit: "open" });
+		});
+
+		test("Probe decides whether to close", async () => {
+			const cooldown = 100;
+			const adapter = new TestAdapter(delay, { status: 500 });
+			const fetch = createThrottledFetch({ maxRetry: 0, circuitBreaker: { failureThreshold: 1, cooldown } }, adapter.fetch);
+			await fetch(testUrl);
+			await sleep(cooldown + timeMargin);
+			expect(fetch.stats(testUrl)).toMatchObject({ circuit: "half-open" });
+			const probe = fetch(testUrl);
+			await expect(fetch(testUrl)).rejects.toMatchObject({ retryAfter: 0 });
+			expect((await probe).status).toBe(500);
+			expect(fetch.stats(testUrl)).toMatchObject({ circuit: "open" });
+			await sleep(cooldown + timeMargin);
+			adapter.responseInit = { status: 200 };
+			const probes = [fetch(testUrl), fetch(testUrl)];
+			await expect(probes[1]).rejects.toBeInstanceOf(CircuitOpenError);
+			await expect(probes[0]).resolves.toMatchObject({ status: 200 });
+			expect(fetch.stats(testUrl)).toMatchObject({ circuit: "closed" });
+			await expect(fetch(testUrl)).resolves.toMatchObject({ status: 200 });
+		});
+
+		test("Aborted probe lets another through", async () => {
+			const cooldown = 100;
+			const adapter = new TestAdapter(delay, { status: 500 });
+			const fetch = createThrottledFetch({ maxRetry: 0, circuitBreaker: { failureThreshold: 1, cooldown } }, adapter.fetch);
+			await fetch(testUrl);
+			await sleep(cooldown + timeMargin);
+			const controller = new AbortController();
+			const probe = fetch(testUrl, { signal: controller.signal });
+			controller.abort();
+			await expect(probe).rejects.toMatchObject({ name: "AbortError" });
+			adapter.responseInit = { status: 200 };
+			await expect(fetch(testUrl)).resolves.toMatchObject({ status: 200 });
+			expect(fetch.stats(testUrl)).toMatchObject({ circuit: "closed" });
+		});
+
+		test("Migrated probe frees the probe slot", async () => {
+			const cooldown = 50;
+			const adapter = new TestAdapter(delay, { status: 500 });
+			const fetch = createThrottledFetch(undefined, adapter.fetch);
+			const rule = fetch.configure({ scope: "domain", url: testUrl, maxRetry: 0, circuitBreaker: { failureThreshold: 1, cooldown } });
+			await fetch(testUrl);
+			await sleep(cooldown + timeMargin);
+			rule.pause();
+			const probe = fetch(testUrl);
+			// The new pool has no circuit breaker
+			rule.update({ maxRetry: 0, maxConcurrency: 1 });
+			rule.resume();
+			await expect(probe).resolves.toMatchObject({ status: 500 });
+		});
+	});
+
+	describe("Config: retry delay", () => {
+		test("Constant backoff", async () => {
+			const retryDelay = 200;
+			const fetch = fixture({ maxRetry: 2, retryDelay }, { status: 500 });
+			const start = performance.now();
+			const resp = await fetch(testUrl);
+			expect(resp.status).toBe(500);
+			expect(performance.now() - start).toBeGreaterThanOrEqual(latency * 3 + retryDelay * 2 - timeMargin);
+		});
+
+		test("Exponential backoff", async () => {
+			const retryDelay = 100;
+			const fetch = fixture({ maxRetry: 3, retryDelay, retryBackoff: "exponential", maxRetryDelay: 250 }, { status: 500 });
+			const start = performance.now();
+			await fetch(testUrl);
+			const elapsed = performance.now() - start;
+			// Delays: 100, 200, min(400, 250)
+			expect(elapsed).toBeGreaterThanOrEqual(latency * 4 + 550 - timeMargin);
+			expect(elapsed).toBeLessThan(latency * 4 + 700);
+		});
+
+		test("Retry-After header", async () => {
+			const fetch = fixture({ maxRetry: 1 }, { status: 429, headers: { "Retry-After": "1" } });
+			const start = performance.now();
+			await fetch(testUrl);
+			expect(performance.now() - start).toBeGreaterThanOrEqual(latency * 2 + 1000 - timeMargin);
+			expect(fetch.stats(testUrl).waiting).toBe(0);
+			const ignoring = fixture({ maxRetry: 1, respectRetryAfter: false }, { status: 503, headers: { "Retry-After": "1" } });
+			const start2 = performance.now();
+			await ignoring(testUrl);
+			expect(performance.now() - start2).toBeLessThan(latency * 2 + timeMargin * 2);
+		});
+
+		test("Abort during delay", async () => {
+			const fetch = fixture({ retryDelay: 1000 }, { status: 500 });
+			const controller = new AbortController();
+			const promise = fetch(testUrl, { signal: controller.signal });
+			await new Promise(resolve => setTimeout(resolve, latency * 1.5));
+			expect(fetch.stats(testUrl)).toEqual({ completed: 1, active: 0, waiting: 1 });
+			controller.abort();
+			await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+			expect(fetch.stats(testUrl).waiting).toBe(0);
+		});
+	});
+
+	describe("Config: respectRateLimitHeaders", () => {
+		const reset = 1000;
+
+		test("X-RateLimit headers", async () => {
+			const headers = { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": `${reset / 1000}` };
+			const fetch = fixture({ respectRateLimitHeaders: true }, { headers });
+			await fetch(testUrl);
+			const start = performance.now();
+			await fetch(testUrl);
+			expect(performance.now() - start).toBeGreaterThanOrEqual(latency + reset - timeMargin);
+		});
+
+		test("IETF headers", async () => {
+			const fetch = fixture({ respectRateLimitHeaders: true }, { headers: { "RateLimit": `"default";r=0;t=${reset / 1000}` } });
+			await fetch(testUrl);
+			const start = performance.now();
+			await fetch(testUrl);
+			expect(performance.now() - start).toBeGreaterThanOrEqual(latency + reset - timeMargin);
+			// The window of the policy is used if the reset time is missing
+			const headers = { "RateLimit": "limit=10, remaining=0", "RateLimit-Policy": `10;w=${reset / 1000}` };
+			const withPolicy = fixture({ respectRateLimitHeaders: true }, { headers });
+			await withPolicy(testUrl);
+			const start2 = performance.now();
+			await withPolicy(testUrl);
+			expect(performance.now() - start2).toBeGreaterThanOrEqual(latency + reset - timeMargin);
+		});
+
+		test("Counts requests started since", async () => {
+			const headers = { "X-RateLimit-Remaining": "1", "X-RateLimit-Reset": `${reset / 1000}` };
+			const fetch = fixture({ respectRateLimitHeaders: true }, { headers });
+			await fetch(testUrl);
+			const resps = await Promise.all([0, 1].map(() => fetch(testUrl).then(resp => resp.json() as Promise<TestResp>)));
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(reset - timeMargin);
+		});
+
+		test("Disabled by default", async () => {
+			const fetch = fixture(undefined, { headers: { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "1" } });
+			const start = performance.now();
+			await fetch(testUrl);
+			await fetch(testUrl);
+			expect(performance.now() - start).toBeLessThan(latency * 2 + timeMargin);
+		});
+	});
+
+	describe("Config: overflow", () => {
+		test("Drops the oldest request", async () => {
+			const fetch = fixture({ maxConcurrency: 1, capacity: 2, overflow: "drop-oldest" });
+			const rejected = new Array<ThrottleEvent>();
+			fetch.on("rejected", e => rejected.push(e));
+			const active = fetch(testUrl);
+			const oldest = fetch(`${testUrl}/1`);
+			const second = fetch(`${testUrl}/2`);
+			const newest = fetch(`${testUrl}/3`);
+			await expect(oldest).rejects.toThrow("dropped");
+			await Promise.all([active, second, newest]);
+			expect(rejected.map(e => e.params[0])).toEqual([`${testUrl}/1`]);
+		});
+
+		test("Drops the lowest priority request", async () => {
+			const fetch = fixture({ maxConcurrency: 1, capacity: 2, overflow: "drop-lowest-priority" });
+			const active = fetch(testUrl);
+			const high = fetch(testUrl, { throttle: { priority: 1 } });
+			const low = fetch(testUrl);
+			const higher = fetch(testUrl, { throttle: { priority: 2 } });
+			await expect(low).rejects.toThrow("dropped");
+			await expect(fetch(testUrl)).rejects.toThrow("full");
+			await Promise.all([active, high, higher]);
+		});
+
+		test("Waits for room", async () => {
+			const fetch = fixture({ maxConcurrency: 1, capacity: 1, overflow: "wait" });
+			const promises = new Array<Promise<TestResp>>();
+			for (let i = 0; i < 4; ++i)
+				promises.push(fetch(testUrl).then(resp => resp.json()));
+			expect(fetch.stats(testUrl)).toEqual({ completed: 0, active: 1, waiting: 3 });
+			const start = performance.now();
+			await fetch.ready(testUrl);
+			expect(performance.now() - start).toBeGreaterThanOrEqual(latency * 2 - timeMargin);
+			const resps = await Promise.all(promises);
+			expect(resps.map(r => r.id)).toEqual([0, 1, 2, 3]);
+		});
+
+		test("Aborts and clears waiting requests", async () => {
+			const fetch = fixture({ maxConcurrency: 1, capacity: 1, overflow: "wait" });
+			const controller = new AbortController();
+			const active = fetch(testUrl);
+			const queued = fetch(testUrl);
+			const aborted = fetch(testUrl, { signal: controller.signal });
+			const cleared = fetch(testUrl);
+			controller.abort();
+			await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+			expect(fetch.stats(testUrl).waiting).toBe(2);
+			expect(fetch.clear()).toBe(2);
+			await expect(queued).rejects.toMatchObject({ name: "AbortError" });
+			await expect(cleared).rejects.toMatchObject({ name: "AbortError" });
+			await fetch.ready(testUrl);
+			await active;
+		});
+	});
+
+	describe("Config: timeout", () => {
+		test("Retries timed out attempts", async () => {
+			const timeout = 100;
+			const fetch = fixture({ maxConcurrency: 1, maxRetry: 1, timeout }, undefined, latency * 10);
+			const start = performance.now();
+			await expect(fetch(testUrl)).rejects.toMatchObject({ name: "TimeoutError" });
+			const elapsed = performance.now() - start;
+			expect(elapsed).toBeGreaterThanOrEqual(timeout * 2 - timeMargin);
+			expect(elapsed).toBeLessThan(latency * 10);
+			expect(fetch.stats(testUrl)).toEqual({ completed: 2, active: 0, waiting: 0 });
+		});
+
+		test("Passes timeouts to shouldRetry", async () => {
+			const errors = new Array<Error | Response>();
+			const fetch = fixture({
+				maxRetry: 3,
+				timeout: 50,
+				shouldRetry: error => {
+					errors.push(error);
+					return false;
+				}
+			}, undefined, latency * 10);
+			await expect(fetch(testUrl)).rejects.toMatchObject({ name: "TimeoutError" });
+			expect(errors).toHaveLength(1);
+			expect(errors[0]).toMatchObject({ name: "TimeoutError" });
+		});
+
+		test("Aborts the signal passed to the adapter", async () => {
+			let signal: AbortSignal | undefined;
+			const fetch = createThrottledFetch({ timeout: 50, maxRetry: 0 }, (_: RequestInfo | URL, init?: RequestInit) => {
+				signal = init?.signal ?? undefined;
+				return new Promise<Response>(() => { });
+			});
+			await expect(fetch(testUrl)).rejects.toMatchObject({ name: "TimeoutError" });
+			expect(signal?.aborted).toBe(true);
+		});
+
+		test("Deadline covers queue time and retries", async () => {
+			const deadline = latency * 2.5;
+			const fetch = fixture({ maxConcurrency: 1, maxRetry: 5, deadline }, { status: 500 });
+			const start = performance.now();
+			const first = fetch(testUrl);
+			const second = fetch(testUrl);
+			await expect(first).rejects.toMatchObject({ name: "TimeoutError" });
+			await expect(second).rejects.toMatchObject({ name: "TimeoutError" });
+			expect(performance.now() - start).toBeLessThan(deadline + timeMargin * 2);
+			expect(fetch.stats(testUrl)).toMatchObject({ active: 0, waiting: 0 });
+		});
+	});
+
+	describe("Priority", () => {
+		test("Dequeues higher priority first", async () => {
+			const fetch = fixture({ maxConcurrency: 1 });
+			const resps = await Promise.all([
+				fetch(testUrl).then(resp => resp.json()),
+				fetch(testUrl, { throttle: { priority: -1 } }).then(resp => resp.json()),
+				fetch(testUrl).then(resp => resp.json()),
+				fetch(testUrl, { throttle: { priority: 1 } }).then(resp => resp.json())
+			]);
+			expect(resps.map(r => r.id)).toEqual([0, 3, 2, 1]);
+		});
+
+		test("Ages waiting requests", async () => {
+			const fetch = fixture({ maxConcurrency: 1, priorityAging: 10 });
+			const first = fetch(testUrl);
+			const low = fetch(testUrl).then(resp => resp.json());
+			await new Promise(resolve => setTimeout(resolve, latency / 2));
+			const high = fetch(testUrl, { throttle: { priority: 2 } }).then(resp => resp.json());
+			await first;
+			expect((await low).id).toBeLessThan((await high).id);
+		});
+	});
+
+	describe("Per-request options", () => {
+		test("Overrides maxRetry", async () => {
+			const fetch = fixture({ maxRetry: 2 }, { status: 500 });
+			const resp = await fetch(testUrl, { throttle: { maxRetry: 0 } });
+			expect((await resp.json()).id).toBe(0);
+			const other = fixture({ maxRetry: 0 }, { status: 500 });
+			const retried = await other(testUrl, { throttle: { maxRetry: 2 } });
+			expect((await retried.json()).id).toBe(2);
+		});
+
+		test("Overrides shouldRetry", async () => {
+			const decisions = new Array<string>();
+			const fetch = fixture({
+				maxRetry: 1,
+				shouldRetry: () => {
+					decisions.push("rule");
+					return true;
+				}
+			});
+			// Defers to the rule for the first attempt only
+			const shouldRetry = () => {
+				decisions.push("request");
+				return decisions.length > 1 ? false : undefined;
+			};
+			const resp = await fetch(testUrl, { throttle: { shouldRetry } });
+			expect((await resp.json()).id).toBe(1);
+			expect(decisions).toEqual(["request", "rule", "request"]);
+			decisions.length = 0;
+			const noRetry = await fetch(testUrl, { throttle: { shouldRetry: async () => false } });
+			expect((await noRetry.json()).id).toBe(2);
+			expect(decisions).toEqual([]);
+		});
+
+		test("Overrides timeout", async () => {
+			const fetch = fixture({ maxRetry: 0, timeout: latency / 2 });
+			await expect(fetch(testUrl)).rejects.toMatchObject({ name: "TimeoutError" });
+			await expect(fetch(testUrl, { throttle: { timeout: 0 } })).resolves.toMatchObject({ ok: true });
+			const other = fixture({ maxRetry: 0 });
+			await expect(other(testUrl, { throttle: { timeout: latency / 2 } })).rejects.toMatchObject({ name: "TimeoutError" });
+		});
+
+		test("Bypasses throttling", async () => {
+			const fetch = fixture({ maxConcurrency: 1 });
+			const first = fetch(testUrl).then(resp => resp.json());
+			const second = fetch(testUrl).then(resp => resp.json());
+			const bypassed = fetch(testUrl, { throttle: { bypass: true } }).then(resp => resp.json());
+			expect(fetch.stats(testUrl)).toEqual({ completed: 0, active: 1, waiting: 1 });
+			const resps = await Promise.all([first, second, bypassed]);
+			expect(resps[2].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+		});
+	});
+
+	describe("Request bodies", () => {
+		const payload = "payload";
+
+		/**
+		 * Creates a throttled fetch whose adapter echoes the request bodies, failing the first attempt.
+		 */
+		function echoFixture(config?: DefaultThrottleConfig) {
+			const bodies = new Array<string>();
+			const fetch = createThrottledFetch(config, async (input: RequestInfo | URL, init?: RequestInit) => {
+				const body = await new Request(input, init).text();
+				bodies.push(body);
+				return new Response(body, { status: bodies.length === 1 ? 500 : 200 });
+			});
+			return { fetch, bodies };
+		}
+
+		const stream = () => new ReadableStream<Uint8Array>({
+			start(controller) {
+				for (const char of payload)
+					controller.enqueue(new TextEncoder().encode(char));
+				controller.close();
+			}
+		});
+
+		test("Replays buffered bodies", async () => {
+			const { fetch, bodies } = echoFixture({ maxRetry: 1 });
+			const resp = await fetch(new Request(testUrl, { method: "POST", body: payload }));
+			expect(resp.status).toBe(200);
+			expect(await resp.text()).toBe(payload);
+			const init = { method: "PUT", body: stream(), duplex: "half" } as RequestInit;
+			expect((await fetch(testUrl, init)).status).toBe(200);
+			expect(bodies).toEqual([payload, payload, payload]);
+		});
+
+		test("Excludes bodies exceeding the limit from retry", async () => {
+			const { fetch, bodies } = echoFixture({ maxRetry: 1, maxReplayBodySize: payload.length - 1 });
+			const resp = await fetch(new Request(testUrl, { method: "POST", body: stream(), duplex: "half" } as RequestInit));
+			expect(resp.status).toBe(500);
+			expect(bodies).toEqual([payload]);
+			// Bodies that can be sent again are retried regardless of the limit
+			const other = echoFixture({ maxRetry: 1, maxReplayBodySize: 0 });
+			expect((await other.fetch(testUrl, { method: "POST", body: payload })).status).toBe(200);
+			expect(other.bodies).toEqual([payload, payload]);
+		});
+
+		test("Queues in the current pool after buffering", async () => {
+			const { fetch, bodies } = echoFixture({ maxRetry: 1 });
+			const rule = fetch.configure({ scope: "domain", url: testUrl, maxConcurrency: 1 });
+			let write!: ReadableStreamDefaultController<Uint8Array>;
+			const body = new ReadableStream<Uint8Array>({ start: controller => void (write = controller) });
+			const keys = new Array<string>();
+			fetch.on("queued", e => keys.push(e.key));
+			const promise = fetch(testUrl, { method: "POST", body, duplex: "half" } as RequestInit);
+			rule.remove();
+			write.enqueue(new TextEncoder().encode(payload));
+			write.close();
+			expect((await promise).status).toBe(200);
+			// The request is queued in the default pool instead of the pool of the removed rule
+			expect(keys).toEqual([""]);
+			expect(bodies).toEqual([payload, payload]);
+		});
+	});
+
+	describe("Abort signal", () => {
+		test("Aborts waiting request", async () => {
+			const fetch = fixture({ maxConcurrency: 1 });
+			const controller = new AbortController();
+			const first = fetch(testUrl);
+			const second = fetch(testUrl, { signal: controller.signal });
+			expect(fetch.stats(testUrl).waiting).toBe(1);
+			controller.abort();
+			await expect(second).rejects.toMatchObject({ name: "AbortError" });
+			expect(fetch.stats(testUrl).waiting).toBe(0);
+			await first;
+			expect(fetch.stats(testUrl).completed).toBe(1);
+		});
+
+		test("Rejects already aborted request", async () => {
+			const fetch = fixture();
+			const request = new Request(testUrl, { signal: AbortSignal.abort() });
+			await expect(fetch(request)).rejects.toMatchObject({ name: "AbortError" });
+			expect(fetch.stats(testUrl).active).toBe(0);
+		});
+
+		test("Aborts active request", async () => {
+			const fetch = fixture({ maxRetry: 2 }, { status: 500 });
+			const controller = new AbortController();
+			const start = performance.now();
+			const promise = fetch(testUrl, { signal: controller.signal });
+			setTimeout(() => controller.abort(), latency / 2);
+			await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+			expect(performance.now() - start).toBeLessThan(latency);
+		});
+	});
+
+	describe("Flow control", () => {
+		test("Pause and resume", async () => {
+			const fetch = fixture();
+			fetch.pause();
+			const promises = [fetch(testUrl), fetch(`${testUrl}/data`)];
+			await new Promise(resolve => setTimeout(resolve, latency));
+			expect(fetch.paused).toBe(true);
+			expect(fetch.stats(testUrl)).toEqual({ completed: 0, active: 0, waiting: 2 });
+			fetch.resume();
+			expect(fetch.stats(testUrl).active).toBe(2);
+			await Promise.all(promises);
+		});
+
+		test("Pause rule", async () => {
+			const fetch = fixture();
+			const rule = fetch.configure({ scope: "path", url: `${testUrl}/auth`, matchSubpath: true });
+			rule.pause();
+			const paused = fetch(`${testUrl}/auth/login`);
+			await fetch(testUrl);
+			fetch.pause();
+			fetch.resume();
+			expect(fetch.stats(`${testUrl}/auth`).waiting).toBe(1);
+			rule.resume();
+			expect(rule.paused).toBe(false);
+			await paused;
+		});
+
+		test("Idle", async () => {
+			const fetch = fixture({ maxConcurrency: 1, maxRetry: 1 }, { status: 500 });
+			const rule = fetch.configure({ regex: /data/, maxConcurrency: 1 });
+			const settled = new Array<boolean>();
+			for (const url of [testUrl, testUrl, `${testUrl}/data`])
+				fetch(url).then(() => settled.push(true));
+			rule.update({}, "drain");
+			await fetch.idle();
+			expect(settled.length).toBe(3);
+			expect(fetch.stats(testUrl)).toEqual({ completed: 4, active: 0, waiting: 0 });
+			await expect(rule.idle()).resolves.toBeUndefined();
+		});
+
+		test("Clear", async () => {
+			const fetch = fixture({ maxConcurrency: 1 });
+			const first = fetch(testUrl);
+			const others = [fetch(testUrl), fetch(testUrl)];
+			expect(fetch.clear()).toBe(2);
+			for (const promise of others)
+				await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+			expect(fetch.stats(testUrl).waiting).toBe(0);
+			await expect(first).resolves.toBeInstanceOf(Response);
+			const reason = new Error("Signed out");
+			const rule = fetch.configure({ regex: /api/, maxConcurrency: 1 });
+			rule.pause();
+			const pending = fetch(`${testUrl}/api`);
+			expect(rule.clear(reason)).toBe(1);
+			await expect(pending).rejects.toBe(reason);
+		});
+	});
+
+	describe("Events", () => {
+		const types: ThrottleEventType[] = ["queued", "started", "retried", "succeeded", "failed", "rejected"];
+
+		function record(fetch: ReturnType<typeof fixture>) {
+			const events = new Array<ThrottleEvent>();
+			for (const type of types)
+				fetch.on(type, e => events.push(e));
+			return events;
+		}
+
+		test("Lifecycle of a retried request", async () => {
+			const fetch = fixture({ maxRetry: 1 }, { status: 500 });
+			const events = record(fetch);
+			await fetch(testUrl);
+			expect(events.map(e => e.type)).toEqual(["queued", "started", "retried", "started", "succeeded"]);
+			expect(events.map(e => e.attempt)).toEqual([1, 1, 1, 2, 2]);
+			expect(events.every(e => e.key === "")).toBe(true);
+			expect(events[2].latency).toBeGreaterThanOrEqual(latency - timeMargin);
+			expect(events[2].response?.status).toBe(500);
+			expect(events[4].elapsed).toBeGreaterThanOrEqual(latency * 2 - timeMargin);
+		});
+
+		test("Queue time and rejection", async () => {
+			const fetch = fixture({ maxConcurrency: 1, capacity: 1 });
+			fetch.configure({ name: "api", scope: "domain", url: testUrl, maxConcurrency: 1, capacity: 1 });
+			const events = record(fetch);
+			const first = fetch(testUrl);
+			const second = fetch(testUrl);
+			await expect(fetch(testUrl)).rejects.toThrow("Request pool is full");
+			await Promise.all([first, second]);
+			expect(events.every(e => e.key === "api")).toBe(true);
+			expect(events.filter(e => e.type === "rejected").length).toBe(1);
+			const started = events.filter(e => e.type === "started");
+			expect(started[0].queueTime).toBeLessThan(timeMargin);
+			expect(started[1].queueTime).toBeGreaterThanOrEqual(latency - timeMargin);
+		});
+
+		test("Failure and unsubscription", async () => {
+			const fetch = createThrottledFetch({ maxRetry: 0 }, (() => Promise.reject(new Error("Network failure"))) as unknown as Fetch);
+			const failures = new Array<ThrottleEvent>();
+			const off = fetch.on("failed", e => failures.push(e));
+			await expect(fetch(testUrl)).rejects.toThrow();
+			off();
+			await expect(fetch(testUrl)).rejects.toThrow();
+			expect(failures.length).toBe(1);
+			expect(failures[0].error).toBeInstanceOf(Error);
+		});
+
+		test("Faulty listeners", async () => {
+			const fetch = fixture();
+			const queued = new Array<string>();
+			fetch.on("queued", () => {
+				throw new Error("Faulty listener");
+			});
+			fetch.on("queued", e => queued.push(e.key));
+			const rethrown = new Array<() => void>();
+			const spy = jest.spyOn(globalThis, "queueMicrotask").mockImplementation(callback => void rethrown.push(callback));
+			const promise = fetch(testUrl);
+			spy.mockRestore();
+			expect(queued).toEqual([""]);
+			expect(rethrown.length).toBe(1);
+			expect(rethrown[0]).toThrow("Faulty listener");
+			await promise;
+		});
+	});
+
+	describe("Middleware", () => {
+		/**
+		 * Creates a throttled fetch whose adapter records the requests, responding with the given statuses in turn.
+		 */
+		function recordingFixture(config: DefaultThrottleConfig, statuses: number[] = []) {
+			const requests = new Array<Request>();
+			const fetch = createThrottledFetch(config, async (input: RequestInfo | URL, init?: RequestInit) => {
+				requests.push(new Request(input, init));
+				return new Response(null, { status: statuses[requests.length - 1] ?? 200 });
+			});
+			return { fetch, requests };
+		}
+
+		test("Rewrites requests before each attempt", async () => {
+			const contexts = new Array<[number, string, string]>();
+			const { fetch, requests } = recordingFixture({
+				maxRetry: 1,
+				middleware: [{
+					onAttempt([input, init], context) {
+						contexts.push([context.attempt, context.key, context.pool.type]);
+						const headers = new Headers(init?.headers);
+						headers.set("Authorization", `token-${context.attempt}`);
+						return [input, { ...init, headers }];
+					}
+				}]
+			}, [500]);
+			const resp = await fetch(testUrl);
+			expect(resp.status).toBe(200);
+			expect(requests.map(r => r.headers.get("Authorization"))).toEqual(["token-1", "token-2"]);
+			expect(contexts).toEqual([[1, "", "default"], [2, "", "default"]]);
+		});
+
+		test("Rewrites requests before queueing", async () => {
+			const log = new Array<string>();
+			const { fetch, requests } = recordingFixture({
+				middleware: [
+					{
+						onRequest([, init]) {
+							log.push("request 1");
+							return ["https://example.org/a", init];
+						},
+						onResponse: () => void log.push("response 1")
+					},
+					{
+						onRequest: () => void log.push("request 2"),
+						onAttempt: () => void log.push("attempt 2"),
+						onResponse: () => void log.push("response 2")
+					}
+				]
+			});
+			fetch.configure({ scope: "domain", domains: "example.org", maxConcurrency: 1 });
+			await fetch(testUrl);
+			expect(fetch.stats("https://example.org")).toMatchObject({ completed: 1 });
+			expect(fetch.stats(testUrl)).toMatchObject({ completed: 0 });
+			expect(requests[0].url).toBe("https://example.org/a");
+			expect(log).toEqual(["request 1", "request 2", "attempt 2", "response 2", "response 1"]);
+		});
+
+		test("Transforms responses", async () => {
+			const { fetch, requests } = recordingFixture({ maxRetry: 1 }, [503, 503, 503]);
+			const remove = fetch.use({
+				onResponse: resp => resp.status === 503 ? new Response("fallback") : undefined
+			});
+			expect(await (await fetch(testUrl)).text()).toBe("fallback");
+			expect(requests.length).toBe(1);
+			remove();
+			expect((await fetch(testUrl)).status).toBe(503);
+			expect(requests.length).toBe(3);
+		});
+
+		test("Typed for custom adapters", async () => {
+			class TimedResponse extends Response {
+				readonly receivedAt = performance.now();
+			}
+			const adapter: ExtendedFetch<Request, TimedResponse> = async () => new TimedResponse("ok");
+			const times = new Array<number>();
+			const fetch = createThrottledFetch({
+				middleware: [{ onResponse: resp => void times.push(resp.receivedAt) }]
+			}, adapter);
+			const resp = await fetch(testUrl);
+			expect(times).toEqual([resp.receivedAt]);
+		});
+	});
+
+	describe("Coalescing", () => {
+		test("Shares identical requests", async () => {
+			const fetch = fixture({ maxConcurrency: 1, coalesce: true });
+			const resps = await Promise.all([
+				fetch(testUrl).then(resp => resp.json()),
+				fetch(new Request(testUrl)).then(resp => resp.json()),
+				fetch(testUrl, { method: "POST" }).then(resp => resp.json())
+			]);
+			expect(resps.map(r => r.id)).toEqual([0, 0, 1]);
+			expect(fetch.stats(testUrl).completed).toBe(2);
+			const resp = await fetch(testUrl).then(resp => resp.json());
+			expect(resp.id).toBe(2);
+		});
+
+		test("Keys by selected headers", async () => {
+			const fetch = fixture({ coalesce: { headers: ["Authorization"] } });
+			const resps = await Promise.all([
+				fetch(testUrl, { headers: { Authorization: "a", Accept: "text/plain" } }).then(resp => resp.json()),
+				fetch(testUrl, { headers: { Authorization: "a" } }).then(resp => resp.json()),
+				fetch(testUrl, { headers: { Authorization: "b" } }).then(resp => resp.json())
+			]);
+			expect(resps.map(r => r.id)).toEqual([0, 0, 1]);
+		});
+
+		test("Custom key", async () => {
+			const fetch = fixture({ coalesce: { key: (_, init) => init?.method ?? "GET" } });
+			const resps = await Promise.all([
+				fetch(`${testUrl}/a`, { method: "PUT" }).then(resp => resp.json()),
+				fetch(`${testUrl}/b`, { method: "PUT" }).then(resp => resp.json()),
+				fetch(`${testUrl}/c`).then(resp => resp.json())
+			]);
+			expect(resps.map(r => r.id)).toEqual([0, 0, 1]);
+		});
+
+		test("Aborts only the aborted caller", async () => {
+			const fetch = fixture({ coalesce: true });
+			const first = new AbortController();
+			const second = new AbortController();
+			const aborted = fetch(testUrl, { signal: first.signal });
+			const kept = fetch(testUrl, { signal: second.signal });
+			first.abort();
+			await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+			expect(fetch.stats(testUrl).active).toBe(1);
+			expect(await kept.then(resp => resp.json())).toMatchObject({ id: 0 });
+			const last = fetch(testUrl, { signal: first.signal });
+			await expect(last).rejects.toMatchObject({ name: "AbortError" });
+			const promise = fetch(testUrl, { signal: second.signal });
+			second.abort();
+			await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+			// Not joining the request aborted by all of its callers
+			expect(await fetch(testUrl).then(resp => resp.json())).toMatchObject({ id: 2 });
+		});
+
+		test("Settles when matching rules throws", async () => {
+			const fetch = fixture({ coalesce: true });
+			let thrown = false;
+			fetch.configure({
+				match: () => {
+					if (thrown)
+						return false;
+					thrown = true;
+					throw new Error("Faulty matcher");
 				}
 			});
-			const resp = await cloneFetch(testUrl);
-			expect(() => resp.json()).rejects.toThrow("Body is unusable: Body has already been read");
+			await expect(fetch(testUrl)).rejects.toThrow("Faulty matcher");
+			expect(await fetch(testUrl).then(resp => resp.json())).toMatchObject({ id: 0 });
+		});
+	});
+
+	describe("Nested limits", () => {
+		const apiDomain = "https://api.example.com";
+		const searchUrl = `${apiDomain}/search`;
+
+		test("Path rule nested in domain rule", async () => {
+			const fetch = fixture();
+			fetch.configure({ scope: "domain", url: apiDomain, maxConcurrency: 2 });
+			fetch.configure({ scope: "path", url: searchUrl, maxConcurrency: 2, nested: true });
+			const resps = await Promise.all([
+				fetch(`${apiDomain}/users`).then(resp => resp.json()),
+				fetch(searchUrl).then(resp => resp.json()),
+				fetch(searchUrl).then(resp => resp.json())
+			]);
+			expect(resps[1].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(resps[2].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+			expect(fetch.stats(apiDomain)).toEqual({ completed: 3, active: 0, waiting: 0 });
+		});
+
+		test("Respects rate limits and pauses of enclosing rules", async () => {
+			const interval = 200;
+			const fetch = fixture();
+			const domain = fetch.configure({ scope: "domain", url: apiDomain, maxConcurrency: 1, interval });
+			fetch.configure({ regex: /\/search/, nested: true });
+			domain.pause();
+			const promise = Promise.all([
+				fetch(searchUrl).then(resp => resp.json()),
+				fetch(searchUrl).then(resp => resp.json())
+			]);
+			await new Promise(resolve => setTimeout(resolve, latency));
+			expect(fetch.stats(searchUrl)).toEqual({ completed: 0, active: 0, waiting: 2 });
+			domain.resume();
+			const resps = await promise;
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(interval - 1);
+		});
+
+		test("Updated rules stay nested", async () => {
+			const fetch = fixture();
+			fetch.configure({ scope: "domain", url: apiDomain, maxConcurrency: 1 });
+			const search = fetch.configure({ scope: "path", url: searchUrl, maxConcurrency: 1, nested: true });
+			search.update({ maxConcurrency: 2 });
+			const resps = await Promise.all([
+				fetch(searchUrl).then(resp => resp.json()),
+				fetch(searchUrl).then(resp => resp.json())
+			]);
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+			expect(fetch.exportRules()[1]).toMatchObject({ maxConcurrency: 2, nested: true });
+		});
+
+		test("Non-nested rules ignore enclosing rules", async () => {
+			const fetch = fixture();
+			fetch.configure({ scope: "domain", url: apiDomain, maxConcurrency: 1 });
+			fetch.configure({ scope: "path", url: searchUrl, maxConcurrency: 2 });
+			const resps = await Promise.all([
+				fetch(`${apiDomain}/users`).then(resp => resp.json()),
+				fetch(searchUrl).then(resp => resp.json()),
+				fetch(searchUrl).then(resp => resp.json())
+			]);
+			expect(resps[2].start - resps[0].start).toBeLessThan(timeMargin);
+		});
+
+		test("Global limit", async () => {
+			const fetch = fixture({ scope: "domain", globalLimit: { maxConcurrency: 2 } });
+			fetch.configure({ scope: "path", url: searchUrl, maxConcurrency: 2 });
+			const resps = await Promise.all([
+				fetch(testUrl).then(resp => resp.json()),
+				fetch(searchUrl).then(resp => resp.json()),
+				fetch(`${apiDomain}/users`).then(resp => resp.json())
+			]);
+			expect(resps[1].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(resps[2].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+			await fetch.idle();
 		});
 	});
 
@@ -230,6 +1161,216 @@ describe("Fetch Throttler", () => {
 			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(1000);
 		});
 
+		test("Pattern config", async () => {
+			const fetch = fixture();
+			fetch.configure({
+				pattern: "*.example.com/users/:id",
+				maxConcurrency: 1
+			});
+			const resps = await Promise.all([
+				fetch(`${apiDomain}/users/1`).then(resp => resp.json()),
+				fetch(`${imgDomain}/users/2?size=large`).then(resp => resp.json()),
+				fetch(`${apiDomain}/users/1/posts`).then(resp => resp.json())
+			]);
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+			expect(resps[2].start - resps[0].start).toBeLessThan(timeMargin);
+		});
+
+		test("Host-only patterns", async () => {
+			const fetch = fixture();
+			fetch.configure({ pattern: "*.example.com", name: "wildcard" });
+			fetch.configure({ pattern: "https://:sub.example.org", name: "param" });
+			fetch.configure({ pattern: "cdn.example.net/**", name: "any" });
+			const keys = new Array<string>();
+			fetch.on("queued", e => keys.push(e.key));
+			await Promise.all([
+				fetch(`${apiDomain}/`),
+				fetch(`${imgDomain}?size=large`),
+				fetch("https://www.example.org"),
+				fetch("https://cdn.example.net"),
+				fetch(`${apiDomain}/users`)
+			]);
+			expect(keys).toEqual(["wildcard", "wildcard", "param", "any", ""]);
+		});
+
+		test("Load rules", async () => {
+			const fetch = fixture();
+			const rules = fetch.loadRules(JSON.stringify([
+				{ scope: "domain", domains: "api.example.com", maxConcurrency: 1 },
+				{ regex: "^https://images\\.", flags: "i", maxConcurrency: 2 },
+				{ pattern: "cdn.example.com/**", interval: 1000 }
+			]));
+			expect(rules.map(rule => rule.name)).toEqual(["api.example.com", "/^https:\\/\\/images\\./i", "cdn.example.com/**"]);
+			const resps = await Promise.all([
+				fetch(`${apiDomain}/a`).then(resp => resp.json()),
+				fetch(`${apiDomain}/b`).then(resp => resp.json())
+			]);
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+			// Loading again replaces the loaded rules
+			fetch.loadRules([{ scope: "domain", domains: "api.example.com", maxConcurrency: 2 }]);
+			expect(rules.every(rule => rule.removed)).toBe(true);
+			expect(fetch.exportRules()).toHaveLength(1);
+			expect(() => fetch.loadRules([{ regex: "(" }])).toThrow(TypeError);
+			// @ts-expect-error Testing custom matchers
+			expect(() => fetch.loadRules([{ match: "api" }])).toThrow(TypeError);
+			expect(() => fetch.loadRules("{}")).toThrow(TypeError);
+			expect(fetch.exportRules()).toHaveLength(1);
+		});
+
+		test("Failed load keeps the loaded rules", async () => {
+			const fetch = fixture();
+			fetch.configure({ regex: /static/, maxConcurrency: 5 });
+			const rules = fetch.loadRules([
+				{ scope: "domain", domains: "api.example.com", maxConcurrency: 1 },
+				{ pattern: "**/images/**", maxConcurrency: 2 }
+			]);
+			const definitions = fetch.exportRules();
+			expect(() => fetch.loadRules([
+				{ scope: "domain", domains: "api.example.com", maxConcurrency: 3 },
+				{ scope: "path", url: "not a url" }
+			])).toThrow(TypeError);
+			expect(() => fetch.loadRules([{ scope: "domain", domains: "a.com", rateLimits: [{ type: "sliding-window", limit: 0, window: 1000 }] }])).toThrow(RangeError);
+			expect(rules.some(rule => rule.removed)).toBe(false);
+			expect(fetch.exportRules()).toEqual(definitions);
+			const resps = await Promise.all([
+				fetch(`${apiDomain}/a`).then(resp => resp.json()),
+				fetch(`${apiDomain}/b`).then(resp => resp.json())
+			]);
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+			// The restored rules are still replaced by the next load
+			fetch.loadRules([]);
+			expect(rules.every(rule => rule.removed)).toBe(true);
+			expect(fetch.exportRules()).toHaveLength(1);
+		});
+
+		test("Load rules with migration", async () => {
+			const fetch = fixture();
+			fetch.loadRules([{ pattern: "api.example.com/**", maxConcurrency: 1 }]);
+			const promises = new Array<Promise<TestResp>>();
+			for (let i = 0; i < 3; ++i)
+				promises.push(fetch(apiDomain).then(resp => resp.json()));
+			fetch.loadRules([{ pattern: "api.example.com/**", name: "api", maxConcurrency: 3 }]);
+			expect(fetch.stats(apiDomain)).toEqual({ completed: 0, active: 2, waiting: 0 });
+			const resps = await Promise.all(promises);
+			expect(resps[2].start - resps[0].start).toBeLessThan(timeMargin);
+		});
+
+		test("Export rules", () => {
+			const fetch = fixture();
+			fetch.configure({ scope: "path", url: [apiDomain + apiPath], matchSubpath: true, maxConcurrency: 2, shouldRetry: () => false });
+			const rule = fetch.configure({ regex: /images/g, name: "images", interval: 100 });
+			fetch.configure({ match: () => false });
+			rule.update({ interval: 200 });
+			const definitions = fetch.exportRules();
+			expect(definitions).toEqual([
+				{ scope: "path", url: [apiDomain + apiPath], matchSubpath: true, maxConcurrency: 2, name: apiDomain + apiPath },
+				{ regex: "images", flags: "g", interval: 200, name: "images" }
+			]);
+			const other = fixture();
+			other.loadRules(JSON.stringify(definitions));
+			expect(other.exportRules()).toEqual(definitions);
+		});
+
+		test("Method and header criteria", async () => {
+			const fetch = fixture();
+			fetch.configure({ scope: "domain", url: apiDomain });
+			// Rules configured later are matched first
+			fetch.configure({ scope: "domain", url: apiDomain, methods: ["post", "PUT"], maxConcurrency: 1 });
+			fetch.configure({ scope: "domain", url: apiDomain, headers: { "X-Background": true }, maxConcurrency: 1 });
+			expect(() => fetch.configure({ scope: "domain", url: apiDomain })).toThrow(Error);
+			const writes = await Promise.all([
+				fetch(apiDomain, { method: "POST" }).then(resp => resp.json()),
+				fetch(new Request(apiDomain, { method: "PUT" })).then(resp => resp.json()),
+				fetch(apiDomain).then(resp => resp.json())
+			]);
+			expect(writes[1].start - writes[0].start).toBeGreaterThanOrEqual(latency);
+			expect(writes[2].start - writes[0].start).toBeLessThan(timeMargin);
+			const reads = await Promise.all([
+				fetch(apiDomain, { headers: { "X-Background": "1" } }).then(resp => resp.json()),
+				fetch(apiDomain, { headers: { "x-background": "1" } }).then(resp => resp.json()),
+				fetch(apiDomain, { headers: { "X-Foreground": "1" } }).then(resp => resp.json())
+			]);
+			expect(reads[1].start - reads[0].start).toBeGreaterThanOrEqual(latency);
+			expect(reads[2].start - reads[0].start).toBeLessThan(timeMargin);
+		});
+
+		test("Custom config receives method and headers", async () => {
+			const fetch = fixture();
+			fetch.configure({
+				match: (_, request) => request.method === "GET" && request.headers.get("Accept") === "image/png",
+				maxConcurrency: 1
+			});
+			const resps = await Promise.all([
+				fetch(cdnDomain, { headers: { Accept: "image/png" } }).then(resp => resp.json()),
+				fetch(cdnDomain, { headers: { Accept: "image/png" } }).then(resp => resp.json()),
+				fetch(cdnDomain).then(resp => resp.json())
+			]);
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+			expect(resps[2].start - resps[0].start).toBeLessThan(timeMargin);
+		});
+
+		test("Custom pool keys", async () => {
+			const fetch = fixture({
+				maxConcurrency: 1,
+				keyBy: request => request.headers.get("Authorization") ?? undefined
+			});
+			const keys = new Array<string>();
+			fetch.on("started", e => keys.push(e.key));
+			const resps = await Promise.all([
+				fetch(apiDomain, { headers: { Authorization: "a" } }).then(resp => resp.json()),
+				fetch(imgDomain, { headers: { Authorization: "b" } }).then(resp => resp.json()),
+				fetch(cdnDomain, { headers: { Authorization: "a" } }).then(resp => resp.json()),
+				fetch(cdnDomain).then(resp => resp.json())
+			]);
+			expect(resps[1].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(resps[2].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+			expect(resps[3].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(keys).toEqual(["a", "b", "", "a"]);
+		});
+
+		test("Update rule with migration", async () => {
+			const fetch = fixture();
+			const rule = fetch.configure({ scope: "domain", url: apiDomain, maxConcurrency: 1 });
+			const promises = new Array<Promise<TestResp>>();
+			for (let i = 0; i < 3; ++i)
+				promises.push(fetch(apiDomain).then(resp => resp.json()));
+			expect(fetch.stats(apiDomain).waiting).toBe(2);
+			rule.update({ maxConcurrency: 3 });
+			expect(fetch.stats(apiDomain)).toEqual({ completed: 0, active: 2, waiting: 0 });
+			const resps = await Promise.all(promises);
+			expect(resps[2].start - resps[0].start).toBeLessThan(timeMargin);
+		});
+
+		test("Update rule with draining", async () => {
+			const fetch = fixture();
+			const rule = fetch.configure({ regex: /api/, maxConcurrency: 1 });
+			const first = fetch(apiDomain).then(resp => resp.json());
+			const second = fetch(apiDomain).then(resp => resp.json());
+			rule.update({ maxConcurrency: 1 }, "drain");
+			const third = fetch(apiDomain).then(resp => resp.json());
+			const resps = await Promise.all([first, second, third]);
+			expect(resps[2].start - resps[0].start).toBeLessThan(timeMargin);
+			expect(resps[1].start - resps[0].start).toBeGreaterThanOrEqual(latency);
+		});
+
+		test("Remove rule", async () => {
+			const fetch = fixture({ maxConcurrency: 2 });
+			const rule = fetch.configure({ match: url => url.host === "api.example.com", maxConcurrency: 1 });
+			const promises = new Array<Promise<TestResp>>();
+			for (let i = 0; i < 3; ++i)
+				promises.push(fetch(apiDomain).then(resp => resp.json()));
+			rule.remove();
+			expect(rule.removed).toBe(true);
+			expect(fetch.stats(apiDomain)).toEqual({ completed: 0, active: 2, waiting: 0 });
+			await Promise.all(promises);
+			expect(() => rule.update({})).toThrow(Error);
+			expect(() => rule.remove()).not.toThrow();
+			// The domain can be configured again once the rule is removed
+			const domainRule = fetch.configure({ scope: "domain", url: apiDomain });
+			domainRule.remove("drain");
+			expect(() => fetch.configure({ scope: "domain", url: apiDomain })).not.toThrow();
+		});
+
 		test("Error handling", async () => {
 			const fetch = fixture();
 			fetch.configure({
@@ -269,6 +1410,50 @@ describe("Fetch Throttler", () => {
 		});
 	});
 
+	test("Snapshot", async () => {
+		const adapter = new TestAdapter(latency);
+		const fetch = createThrottledFetch({ scope: "domain", maxRetry: 1, globalLimit: { maxConcurrency: 4 } }, adapter.fetch);
+		const rule = fetch.configure({ pattern: "https://api.example.com/**", maxConcurrency: 1 });
+		const api = "https://api.example.com/items";
+		await Promise.all([fetch(testUrl), fetch(api)]);
+		adapter.responseInit = { status: 500 };
+		const waiting = [fetch(api), fetch(api)];
+		rule.update({ maxConcurrency: 2 }, "drain");
+		await Promise.all(waiting);
+		await rule.idle();
+		const snapshots = fetch.snapshot();
+		expect(snapshots.map(s => [s.key, s.type, s.retired, s.rule])).toEqual([
+			["example.com", "default", false, undefined],
+			["https://api.example.com/**", "pattern", false, rule],
+			["*", "global", false, undefined]
+		]);
+		expect(snapshots[0]).toMatchObject({
+			completed: 1,
+			succeeded: 1,
+			failed: 0,
+			retried: 0,
+			config: { maxRetry: 1 },
+			effectiveConcurrency: Infinity,
+			latency: { count: 1 }
+		});
+		expect(snapshots[0].latency!.p50).toBeGreaterThanOrEqual(latency);
+		expect(snapshots[1]).toMatchObject({ completed: 0, config: { maxConcurrency: 2 }, effectiveConcurrency: 2 });
+		expect(snapshots[1].latency).toBeUndefined();
+		expect(snapshots[2]).toMatchObject({ completed: 6 });
+	});
+
+	test("Snapshot of retired pools", async () => {
+		const fetch = fixture(undefined, { status: 500 });
+		const rule = fetch.configure({ scope: "domain", url: testUrl, maxConcurrency: 1, maxRetry: 0 });
+		const promises = [fetch(testUrl), fetch(testUrl), fetch(testUrl)];
+		rule.remove("drain");
+		const [retired] = fetch.snapshot();
+		expect(retired).toMatchObject({ key: "example.com", type: "domain", retired: true, rule, active: 1, waiting: 2 });
+		await Promise.all(promises);
+		await rule.idle();
+		expect(fetch.snapshot()).toEqual([]);
+	});
+
 	test("URL parsing", async () => {
 		const fetch = fixture();
 		// Test with URL object